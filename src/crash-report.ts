@@ -0,0 +1,163 @@
+/**
+ * Crash triage: the structured report built for a crashed process or core,
+ * and the stack signature used to recognise the same crash across cores.
+ */
+
+import { createHash } from 'crypto';
+import { GdbFrame, GdbInstruction, GdbMemoryRegion, GdbRegister, describeFrame, describeInstruction, describeMemoryRegion } from './gdb-records.js';
+
+export interface CrashSignal {
+  name?: string;
+  meaning?: string;
+  number?: number;
+  code?: number;
+  errno?: number;
+  // Address that caused the fault, for SIGSEGV, SIGBUS, SIGILL and SIGFPE
+  faultAddress?: string;
+  // Complete `$_siginfo` as printed by GDB
+  siginfo?: string;
+}
+
+export interface CrashReport {
+  signal: CrashSignal;
+  threadId?: string;
+  frames: GdbFrame[];
+  pc?: string;
+  disassembly: GdbInstruction[];
+  registers: GdbRegister[];
+  faultRegion?: GdbMemoryRegion;
+  stackHash: string;
+  signatureFrames: string[];
+}
+
+export interface CoreAnalysis {
+  corePath: string;
+  signal: CrashSignal;
+  stackHash: string;
+  signatureFrames: string[];
+  frames: GdbFrame[];
+}
+
+export interface CrashBucket {
+  stackHash: string;
+  signatureFrames: string[];
+  signals: string[];
+  count: number;
+  // Core whose full backtrace is included in the bucket
+  representative: CoreAnalysis;
+  cores: string[];
+}
+
+// Number of frames that make up a stack signature
+export const SIGNATURE_DEPTH = 5;
+
+// Frames that sit between the faulting code and the signal and say nothing
+// about where the crash is (abort paths, assertion helpers, signal delivery)
+const SIGNATURE_NOISE = /^(<signal handler called>|_*(GI_)*_*(raise|abort|pthread_kill(_implementation|_internal)?|assert_fail(_base)?|libc_message|fortify_fail|stack_chk_fail|chk_fail|malloc_printerr))$/;
+
+function frameName(frame: GdbFrame): string {
+  if (frame.func) {
+    return frame.func;
+  }
+  // Without symbols the module is the most stable thing we know
+  return frame.from ? `${frame.from}+?` : frame.addr ?? '??';
+}
+
+/**
+ * Read the fatal signal from the output of `core-file`, e.g.
+ * "Program terminated with signal SIGSEGV, Segmentation fault."
+ */
+export function parseCoreSignal(coreOutput: string): CrashSignal {
+  const terminated = /Program terminated with signal (\w+), ([^.\n]+)/.exec(coreOutput);
+  return terminated ? { name: terminated[1], meaning: terminated[2] } : {};
+}
+
+/**
+ * Group analysed cores by stack hash, largest bucket first
+ */
+export function bucketCrashes(analyses: CoreAnalysis[]): CrashBucket[] {
+  const buckets = new Map<string, CrashBucket>();
+  for (const analysis of analyses) {
+    let bucket = buckets.get(analysis.stackHash);
+    if (!bucket) {
+      bucket = {
+        stackHash: analysis.stackHash,
+        signatureFrames: analysis.signatureFrames,
+        signals: [],
+        count: 0,
+        representative: analysis,
+        cores: []
+      };
+      buckets.set(analysis.stackHash, bucket);
+    }
+    bucket.count++;
+    bucket.cores.push(analysis.corePath);
+    if (analysis.signal.name && !bucket.signals.includes(analysis.signal.name)) {
+      bucket.signals.push(analysis.signal.name);
+    }
+  }
+  return [...buckets.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Compute a signature of the crashing stack that is stable across runs:
+ * function names of the innermost meaningful frames, without addresses or
+ * line numbers, hashed to a short hex string
+ */
+export function stackSignature(frames: GdbFrame[], depth = SIGNATURE_DEPTH): { hash: string; frames: string[] } {
+  // Everything up to a signal handler frame belongs to the handler
+  const handlerIndex = frames.findIndex((frame) => frame.func === '<signal handler called>');
+  const relevant = handlerIndex >= 0 ? frames.slice(handlerIndex + 1) : frames;
+  const names = relevant.map(frameName);
+  let start = 0;
+  while (start < names.length - 1 && SIGNATURE_NOISE.test(names[start])) {
+    start++;
+  }
+  const signatureFrames = names.slice(start, start + depth);
+  const hash = createHash('sha256').update(signatureFrames.join('\n')).digest('hex').slice(0, 16);
+  return { hash, frames: signatureFrames };
+}
+
+/**
+ * Keep the instructions within `radius` of the one at `pc`
+ */
+export function instructionWindow(instructions: GdbInstruction[], pc: string, radius: number): GdbInstruction[] {
+  const target = BigInt(pc);
+  const index = instructions.findIndex((instruction) => BigInt(instruction.address) === target);
+  if (index < 0) {
+    return instructions.slice(0, radius * 2 + 1);
+  }
+  return instructions.slice(Math.max(0, index - radius), index + radius + 1);
+}
+
+/**
+ * Human-readable report, for the text part of a tool result
+ */
+export function describeCrashReport(report: CrashReport): string {
+  const lines: string[] = [];
+  const { signal } = report;
+  lines.push(`Signal: ${signal.name ?? 'unknown'}${signal.meaning ? ` (${signal.meaning})` : ''}${signal.code !== undefined ? `, code ${signal.code}` : ''}`);
+  if (signal.faultAddress) {
+    const region = report.faultRegion;
+    lines.push(`Fault address: ${signal.faultAddress}${region ? ` in ${describeMemoryRegion(region)}` : ' (not mapped)'}`);
+  }
+  lines.push(`Stack hash: ${report.stackHash} (${report.signatureFrames.join(' < ')})`);
+  lines.push('', `Thread ${report.threadId ?? '?'} backtrace:`);
+  for (const frame of report.frames) {
+    lines.push(describeFrame(frame));
+    for (const local of frame.locals ?? []) {
+      lines.push(`    ${local.name} = ${local.value ?? '<optimized out>'}`);
+    }
+  }
+  if (report.disassembly.length > 0) {
+    lines.push('', 'Disassembly:');
+    for (const instruction of report.disassembly) {
+      lines.push(describeInstruction(instruction, report.pc !== undefined && BigInt(instruction.address) === BigInt(report.pc)));
+    }
+  }
+  if (report.registers.length > 0) {
+    lines.push('', 'Registers:');
+    lines.push(...report.registers.map((entry) => `${entry.name.padEnd(8)} ${entry.value}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,766 @@
+/**
+ * Typed views of the MI records returned by GDB, as exposed to MCP clients
+ */
+import { MiTuple, MiValue, miList, miNumber, miString, miTuple } from './mi-parser.js';
+
+export interface GdbVariable {
+  name: string;
+  type?: string;
+  value?: string;
+  isArgument?: boolean;
+}
+
+export interface GdbFrame {
+  level: number;
+  addr?: string;
+  func?: string;
+  file?: string;
+  fullname?: string;
+  line?: number;
+  from?: string;
+  args?: GdbVariable[];
+  locals?: GdbVariable[];
+}
+
+export interface GdbThread {
+  id: string;
+  targetId?: string;
+  name?: string;
+  state?: string;
+  core?: string;
+  current: boolean;
+  frame?: GdbFrame;
+}
+
+export interface GdbInstruction {
+  address: string;
+  func?: string;
+  offset?: number;
+  inst: string;
+  // `inst` split into the mnemonic (with any prefixes) and its operands
+  mnemonic?: string;
+  operands?: string;
+  opcodes?: string;
+  // Source line the instruction belongs to, when disassembled with source
+  file?: string;
+  fullname?: string;
+  line?: number;
+}
+
+export interface GdbMemoryRegion {
+  start: string;
+  end: string;
+  size?: string;
+  offset?: string;
+  permissions?: string;
+  objfile?: string;
+  // Section name, for regions that come from `info files`
+  section?: string;
+}
+
+export interface GdbSharedLibrary {
+  path: string;
+  // Address range of the library's text, when it is loaded
+  start?: string;
+  end?: string;
+  symbolsLoaded: boolean;
+  // False when the symbols were read but have no debugging information
+  debugInfo?: boolean;
+  // Mappings of the library, when the target can report them
+  regions?: GdbMemoryRegion[];
+}
+
+// Nearest symbol to an address, from `info symbol`
+export interface GdbSymbolInfo {
+  symbol: string;
+  offset: number;
+  section: string;
+  objfile?: string;
+}
+
+// What `info symbol` and the memory map say about an address
+export interface GdbAddressInfo {
+  address: string;
+  symbol?: string;
+  offset?: number;
+  section?: string;
+  objfile?: string;
+  region?: GdbMemoryRegion;
+  library?: string;
+}
+
+// A GDB variable object, the handle MI uses for incremental inspection
+export interface GdbVarobj {
+  name: string;
+  expression?: string;
+  numChildren: number;
+  value?: string;
+  type?: string;
+  threadId?: string;
+  // Backed by a pretty-printer; children are only known up to `hasMore`
+  dynamic?: boolean;
+  hasMore?: boolean;
+}
+
+export interface GdbVarobjChange {
+  name: string;
+  value?: string;
+  inScope: 'true' | 'false' | 'invalid';
+  typeChanged: boolean;
+  newType?: string;
+  newNumChildren?: number;
+  hasMore?: boolean;
+}
+
+export interface GdbRecordStatus {
+  active: boolean;
+  // e.g. "record-full" or "record-btrace"
+  target?: string;
+  // "record" while executing live, "replay" after going backwards
+  mode?: 'record' | 'replay';
+  lowestInstruction?: number;
+  highestInstruction?: number;
+  currentInstruction?: number;
+  instructionCount?: number;
+  maxInstructions?: number;
+}
+
+export interface GdbBreakpointLocation {
+  number: string;
+  enabled: boolean;
+  addr?: string;
+  func?: string;
+  file?: string;
+  fullname?: string;
+  line?: number;
+}
+
+export interface GdbBreakpoint {
+  number: string;
+  type: string;
+  disposition?: string;
+  enabled: boolean;
+  addr?: string;
+  func?: string;
+  file?: string;
+  fullname?: string;
+  line?: number;
+  pending?: string;
+  // What a watchpoint watches or a catchpoint catches
+  what?: string;
+  condition?: string;
+  ignoreCount?: number;
+  thread?: string;
+  hitCount: number;
+  originalLocation?: string;
+  locations: GdbBreakpointLocation[];
+}
+
+export interface GdbRegister {
+  number: number;
+  name: string;
+  value: string;
+}
+
+function asTuples(values: MiValue[]): MiTuple[] {
+  return values.filter((value): value is MiTuple => typeof value === 'object' && !Array.isArray(value));
+}
+
+export function toVariable(tuple: MiTuple): GdbVariable {
+  const variable: GdbVariable = { name: miString(tuple, 'name') || '' };
+  const type = miString(tuple, 'type');
+  const value = miString(tuple, 'value');
+  if (type !== undefined) {
+    variable.type = type;
+  }
+  if (value !== undefined) {
+    variable.value = value;
+  }
+  if (miString(tuple, 'arg') === '1') {
+    variable.isArgument = true;
+  }
+  return variable;
+}
+
+export function toVariables(values: MiValue[]): GdbVariable[] {
+  return asTuples(values).map(toVariable);
+}
+
+export function toFrame(tuple: MiTuple): GdbFrame {
+  const frame: GdbFrame = { level: miNumber(tuple, 'level') ?? 0 };
+  const addr = miString(tuple, 'addr');
+  const func = miString(tuple, 'func');
+  const file = miString(tuple, 'file');
+  const fullname = miString(tuple, 'fullname');
+  const line = miNumber(tuple, 'line');
+  const from = miString(tuple, 'from');
+  if (addr !== undefined) frame.addr = addr;
+  if (func !== undefined) frame.func = func;
+  if (file !== undefined) frame.file = file;
+  if (fullname !== undefined) frame.fullname = fullname;
+  if (line !== undefined) frame.line = line;
+  if (from !== undefined) frame.from = from;
+  if (tuple.args !== undefined) {
+    frame.args = toVariables(miList(tuple, 'args'));
+  }
+  return frame;
+}
+
+export function toFrames(values: MiValue[]): GdbFrame[] {
+  return asTuples(values).map(toFrame);
+}
+
+/**
+ * Convert the results of `-thread-info` into thread records
+ */
+export function toThreads(results: MiTuple): GdbThread[] {
+  const currentId = miString(results, 'current-thread-id');
+  return asTuples(miList(results, 'threads')).map((tuple) => {
+    const thread: GdbThread = {
+      id: miString(tuple, 'id') || '',
+      current: miString(tuple, 'id') === currentId
+    };
+    const targetId = miString(tuple, 'target-id');
+    const name = miString(tuple, 'name');
+    const state = miString(tuple, 'state');
+    const core = miString(tuple, 'core');
+    const frame = miTuple(tuple, 'frame');
+    if (targetId !== undefined) thread.targetId = targetId;
+    if (name !== undefined) thread.name = name;
+    if (state !== undefined) thread.state = state;
+    if (core !== undefined) thread.core = core;
+    if (frame !== undefined) thread.frame = toFrame(frame);
+    return thread;
+  });
+}
+
+export function toInstruction(tuple: MiTuple): GdbInstruction {
+  const instruction: GdbInstruction = {
+    address: miString(tuple, 'address') || '',
+    inst: miString(tuple, 'inst') || ''
+  };
+  const func = miString(tuple, 'func-name');
+  const offset = miNumber(tuple, 'offset');
+  const opcodes = miString(tuple, 'opcodes');
+  if (func !== undefined) instruction.func = func;
+  if (offset !== undefined) instruction.offset = offset;
+  if (opcodes !== undefined) instruction.opcodes = opcodes;
+  // Prefixes such as "lock" or "rep" belong with the mnemonic
+  const parts = /^((?:(?:lock|rep|repe|repz|repne|repnz|data16|addr32|notrack|bnd)\s+)*\S+)\s*(.*)$/.exec(instruction.inst.trim());
+  if (parts) {
+    instruction.mnemonic = parts[1].replace(/\s+/g, ' ');
+    if (parts[2]) instruction.operands = parts[2];
+  }
+  return instruction;
+}
+
+export function toInstructions(values: MiValue[]): GdbInstruction[] {
+  return asTuples(values).map(toInstruction);
+}
+
+/**
+ * Flatten the `src_and_asm_line` records of a source-interleaved
+ * `-data-disassemble`, tagging each instruction with its source line
+ */
+export function toSourceInstructions(values: MiValue[]): GdbInstruction[] {
+  const instructions: GdbInstruction[] = [];
+  for (const tuple of asTuples(values)) {
+    const file = miString(tuple, 'file');
+    const fullname = miString(tuple, 'fullname');
+    const line = miNumber(tuple, 'line');
+    for (const instruction of toInstructions(miList(tuple, 'line_asm_insn'))) {
+      if (file !== undefined) instruction.file = file;
+      if (fullname !== undefined) instruction.fullname = fullname;
+      if (line !== undefined) instruction.line = line;
+      instructions.push(instruction);
+    }
+  }
+  return instructions;
+}
+
+/**
+ * One-line description of an instruction, e.g. "=> 0x401136 <main+4>: mov %rsp,%rbp"
+ */
+export function describeInstruction(instruction: GdbInstruction, current = false): string {
+  const location = instruction.func ? ` <${instruction.func}+${instruction.offset ?? 0}>` : '';
+  const opcodes = instruction.opcodes ? `\t${instruction.opcodes}` : '';
+  return `${current ? '=> ' : '   '}${instruction.address}${location}:${opcodes}\t${instruction.inst}`;
+}
+
+/**
+ * Parse the console output of `info proc mappings`, or of `info files` when
+ * the target cannot report mappings (e.g. cores from older GDB versions)
+ */
+export function parseMemoryRegions(output: string): GdbMemoryRegion[] {
+  const regions: GdbMemoryRegion[] = [];
+  // `info files` names each file once, above the sections it contains
+  let file: string | undefined;
+  for (const line of output.split('\n')) {
+    const header = /^\s*`(.+)', file type /.exec(line);
+    if (header) {
+      file = header[1];
+      continue;
+    }
+    const mapping = /^\s*(0x[0-9a-f]+)\s+(0x[0-9a-f]+)\s+(0x[0-9a-f]+)\s+(0x[0-9a-f]+)(?:\s+([rwxps-]{4}))?\s*(.*)$/i.exec(line);
+    if (mapping) {
+      const region: GdbMemoryRegion = { start: mapping[1], end: mapping[2], size: mapping[3], offset: mapping[4] };
+      if (mapping[5]) region.permissions = mapping[5];
+      if (mapping[6]) region.objfile = mapping[6].trim();
+      regions.push(region);
+      continue;
+    }
+    const section = /^\s*(0x[0-9a-f]+) - (0x[0-9a-f]+) is (\S+)(?: in (.*))?$/i.exec(line);
+    if (section) {
+      const region: GdbMemoryRegion = {
+        start: section[1],
+        end: section[2],
+        size: `0x${(BigInt(section[2]) - BigInt(section[1])).toString(16)}`,
+        section: section[3]
+      };
+      const objfile = section[4]?.trim() ?? file;
+      if (objfile) region.objfile = objfile;
+      regions.push(region);
+    }
+  }
+  return regions;
+}
+
+/**
+ * Find the region that contains an address
+ */
+export function findMemoryRegion(regions: GdbMemoryRegion[], address: string): GdbMemoryRegion | undefined {
+  const value = BigInt(address);
+  return regions.find((region) => BigInt(region.start) <= value && value < BigInt(region.end));
+}
+
+/**
+ * One-line description of a region, e.g. "0x401000-0x402000 r-xp 0x1000 /usr/bin/prog"
+ */
+export function describeMemoryRegion(region: GdbMemoryRegion): string {
+  const parts = [`${region.start}-${region.end}`];
+  if (region.permissions) parts.push(region.permissions);
+  if (region.offset) parts.push(region.offset);
+  if (region.section) parts.push(region.section);
+  if (region.objfile) parts.push(region.objfile);
+  return parts.join(' ');
+}
+
+/**
+ * Convert the `shared-libraries` list of `-file-list-shared-libraries`
+ */
+export function toSharedLibraries(values: MiValue[]): GdbSharedLibrary[] {
+  return asTuples(values).map((tuple) => {
+    const library: GdbSharedLibrary = {
+      path: miString(tuple, 'target-name') || miString(tuple, 'id') || '',
+      symbolsLoaded: miString(tuple, 'symbols-loaded') === '1'
+    };
+    // Older GDB versions report a single range as from/to on the library
+    const [range] = asTuples(miList(tuple, 'ranges'));
+    const start = miString(range, 'from') ?? miString(tuple, 'from');
+    const end = miString(range, 'to') ?? miString(tuple, 'to');
+    if (start !== undefined) library.start = start;
+    if (end !== undefined) library.end = end;
+    return library;
+  });
+}
+
+/**
+ * Parse the console output of `info sharedlibrary`, for GDB versions
+ * without `-file-list-shared-libraries`
+ */
+export function parseSharedLibraries(output: string): GdbSharedLibrary[] {
+  const libraries: GdbSharedLibrary[] = [];
+  for (const line of output.split('\n')) {
+    // Libraries that are not loaded yet have no address range
+    const row = /^\s*(?:(0x[0-9a-f]+)\s+(0x[0-9a-f]+)\s+)?(Yes|No)( \(\*\))?\s+(.+)$/i.exec(line);
+    if (!row) continue;
+    const library: GdbSharedLibrary = { path: row[5].trim(), symbolsLoaded: row[3] === 'Yes' };
+    if (row[1]) library.start = row[1];
+    if (row[2]) library.end = row[2];
+    // "(*)" marks libraries whose symbols have no debugging information
+    if (library.symbolsLoaded) library.debugInfo = !row[4];
+    libraries.push(library);
+  }
+  return libraries;
+}
+
+/**
+ * Parse the output of `info symbol`, e.g. "main + 4 in section .text" or
+ * "puts in section .text of /lib/x86_64-linux-gnu/libc.so.6"
+ */
+export function parseSymbolInfo(output: string): GdbSymbolInfo | undefined {
+  const match = /^(.+?)(?: \+ (\d+))? in section (\S+)(?: of (.+))?$/m.exec(output.trim());
+  if (!match) return undefined;
+  const info: GdbSymbolInfo = {
+    symbol: match[1],
+    offset: match[2] ? Number(match[2]) : 0,
+    section: match[3]
+  };
+  if (match[4]) info.objfile = match[4].trim();
+  return info;
+}
+
+/**
+ * One-line description of an address, e.g.
+ * "0x401136 is main+4 in section .text of /usr/bin/prog (r-xp)"
+ */
+export function describeAddressInfo(info: GdbAddressInfo): string {
+  let text = `${info.address} is ${info.symbol ? `${info.symbol}${info.offset ? `+${info.offset}` : ''}` : 'not at a known symbol'}`;
+  if (info.section) text += ` in section ${info.section}`;
+  const objfile = info.library ?? info.objfile ?? info.region?.objfile;
+  if (objfile) text += ` of ${objfile}`;
+  if (info.region?.permissions) text += ` (${info.region.permissions})`;
+  if (!info.region && !info.section) text += ', not mapped';
+  return text;
+}
+
+export function toVarobj(tuple: MiTuple): GdbVarobj {
+  const varobj: GdbVarobj = {
+    name: miString(tuple, 'name') || '',
+    numChildren: miNumber(tuple, 'numchild') ?? 0
+  };
+  const expression = miString(tuple, 'exp');
+  const value = miString(tuple, 'value');
+  const type = miString(tuple, 'type');
+  const threadId = miString(tuple, 'thread-id');
+  if (expression !== undefined) varobj.expression = expression;
+  if (value !== undefined) varobj.value = value;
+  if (type !== undefined) varobj.type = type;
+  if (threadId !== undefined) varobj.threadId = threadId;
+  if (tuple.dynamic !== undefined) varobj.dynamic = miString(tuple, 'dynamic') === '1';
+  if (tuple.has_more !== undefined) varobj.hasMore = miString(tuple, 'has_more') === '1';
+  return varobj;
+}
+
+export function toVarobjs(values: MiValue[]): GdbVarobj[] {
+  return asTuples(values).map(toVarobj);
+}
+
+/**
+ * Convert the `changelist` of `-var-update`
+ */
+export function toVarobjChanges(values: MiValue[]): GdbVarobjChange[] {
+  return asTuples(values).map((tuple) => {
+    const change: GdbVarobjChange = {
+      name: miString(tuple, 'name') || '',
+      inScope: (miString(tuple, 'in_scope') as GdbVarobjChange['inScope']) || 'true',
+      typeChanged: miString(tuple, 'type_changed') === 'true'
+    };
+    const value = miString(tuple, 'value');
+    const newType = miString(tuple, 'new_type');
+    const newNumChildren = miNumber(tuple, 'new_num_children');
+    if (value !== undefined) change.value = value;
+    if (newType !== undefined) change.newType = newType;
+    if (newNumChildren !== undefined) change.newNumChildren = newNumChildren;
+    if (tuple.has_more !== undefined) change.hasMore = miString(tuple, 'has_more') === '1';
+    return change;
+  });
+}
+
+/**
+ * Parse the console output of `info record`
+ */
+export function parseRecordStatus(output: string): GdbRecordStatus {
+  const target = /Active record target: (\S+)/.exec(output)?.[1];
+  if (!target) {
+    return { active: false };
+  }
+  const status: GdbRecordStatus = { active: true, target };
+  const number = (pattern: RegExp) => {
+    const match = pattern.exec(output);
+    return match ? Number(match[1]) : undefined;
+  };
+  if (/^Replay mode:|Replay in progress/m.test(output)) {
+    status.mode = 'replay';
+  } else if (/^Record mode:/m.test(output) || target === 'record-btrace') {
+    status.mode = 'record';
+  }
+  const lowest = number(/Lowest recorded instruction number is (\d+)/);
+  const highest = number(/Highest recorded instruction number is (\d+)/);
+  const current = number(/Current instruction number is (\d+)/) ?? number(/Replay in progress\.\s+At instruction (\d+)/);
+  const count = number(/Log contains (\d+) instructions/) ?? number(/Recorded (\d+) instructions/);
+  const max = number(/Max logged instructions is (\d+)/);
+  if (lowest !== undefined) status.lowestInstruction = lowest;
+  if (highest !== undefined) status.highestInstruction = highest;
+  if (current !== undefined) status.currentInstruction = current;
+  if (count !== undefined) status.instructionCount = count;
+  if (max !== undefined) status.maxInstructions = max;
+  return status;
+}
+
+function toBreakpointLocation(tuple: MiTuple): GdbBreakpointLocation {
+  const location: GdbBreakpointLocation = {
+    number: miString(tuple, 'number') || '',
+    enabled: miString(tuple, 'enabled') === 'y'
+  };
+  const addr = miString(tuple, 'addr');
+  const func = miString(tuple, 'func');
+  const file = miString(tuple, 'file');
+  const fullname = miString(tuple, 'fullname');
+  const line = miNumber(tuple, 'line');
+  if (addr !== undefined) location.addr = addr;
+  if (func !== undefined) location.func = func;
+  if (file !== undefined) location.file = file;
+  if (fullname !== undefined) location.fullname = fullname;
+  if (line !== undefined) location.line = line;
+  return location;
+}
+
+/**
+ * Convert a `bkpt` result into a breakpoint record.
+ *
+ * Multi-location breakpoints arrive either as a `locations` list (GDB 13+)
+ * or as extra tuples folded into the `bkpt` value by the parser.
+ */
+export function toBreakpoint(value: MiValue): GdbBreakpoint {
+  const tuples = Array.isArray(value) ? asTuples(value) : asTuples([value]);
+  const tuple = tuples[0] || {};
+  const locationTuples = tuple.locations !== undefined ? asTuples(miList(tuple, 'locations')) : tuples.slice(1);
+
+  const breakpoint: GdbBreakpoint = {
+    number: miString(tuple, 'number') || '',
+    type: miString(tuple, 'type') || 'breakpoint',
+    enabled: miString(tuple, 'enabled') === 'y',
+    hitCount: miNumber(tuple, 'times') ?? 0,
+    locations: locationTuples.map(toBreakpointLocation)
+  };
+  const disposition = miString(tuple, 'disp');
+  const addr = miString(tuple, 'addr');
+  const func = miString(tuple, 'func');
+  const file = miString(tuple, 'file');
+  const fullname = miString(tuple, 'fullname');
+  const line = miNumber(tuple, 'line');
+  const pending = miString(tuple, 'pending');
+  const what = miString(tuple, 'what');
+  const condition = miString(tuple, 'cond');
+  const ignoreCount = miNumber(tuple, 'ignore');
+  const thread = miString(tuple, 'thread');
+  const originalLocation = miString(tuple, 'original-location');
+  if (disposition !== undefined) breakpoint.disposition = disposition;
+  if (addr !== undefined) breakpoint.addr = addr;
+  if (func !== undefined) breakpoint.func = func;
+  if (file !== undefined) breakpoint.file = file;
+  if (fullname !== undefined) breakpoint.fullname = fullname;
+  if (line !== undefined) breakpoint.line = line;
+  if (pending !== undefined) breakpoint.pending = pending;
+  if (what !== undefined) breakpoint.what = what;
+  if (condition !== undefined) breakpoint.condition = condition;
+  if (ignoreCount !== undefined) breakpoint.ignoreCount = ignoreCount;
+  if (thread !== undefined) breakpoint.thread = thread;
+  if (originalLocation !== undefined) breakpoint.originalLocation = originalLocation;
+  return breakpoint;
+}
+
+/**
+ * Convert the body of a `-break-list` BreakpointTable into breakpoint records.
+ *
+ * Before GDB 13 the locations of a multi-location breakpoint follow it in
+ * the body as bare tuples numbered "N.M" rather than nested inside it.
+ */
+export function toBreakpointTable(body: MiValue[]): GdbBreakpoint[] {
+  const groups: MiTuple[][] = [];
+  for (const tuple of asTuples(body)) {
+    const number = miString(tuple, 'number') || '';
+    if (number.includes('.') && groups.length > 0) {
+      groups[groups.length - 1].push(tuple);
+    } else {
+      groups.push([tuple]);
+    }
+  }
+  return groups.map((group) => toBreakpoint(group));
+}
+
+/**
+ * Pair `-data-list-register-values` output with `-data-list-register-names`
+ */
+export function toRegisters(values: MiValue[], names: MiValue[]): GdbRegister[] {
+  return asTuples(values).map((tuple) => {
+    const number = miNumber(tuple, 'number') ?? -1;
+    const name = names[number];
+    return {
+      number,
+      name: typeof name === 'string' ? name : String(number),
+      value: miString(tuple, 'value') || ''
+    };
+  });
+}
+
+/**
+ * One-line description of a frame, e.g. "#0  main (argc=1) at crash.c:17"
+ */
+export function describeFrame(frame: GdbFrame): string {
+  let text = `#${frame.level}  ${frame.func || '??'}`;
+  if (frame.args) {
+    text += ` (${frame.args.map((arg) => arg.value !== undefined ? `${arg.name}=${arg.value}` : arg.name).join(', ')})`;
+  }
+  if (frame.file) {
+    text += ` at ${frame.file}:${frame.line ?? '?'}`;
+  } else if (frame.from) {
+    text += ` from ${frame.from}`;
+  } else if (frame.addr) {
+    text += ` at ${frame.addr}`;
+  }
+  return text;
+}
+
+/**
+ * One-line description of a breakpoint, e.g. "Breakpoint 1 at main (crash.c:17)"
+ */
+export function describeBreakpoint(breakpoint: GdbBreakpoint): string {
+  const kind = breakpoint.type.charAt(0).toUpperCase() + breakpoint.type.slice(1);
+  let text = `${kind} ${breakpoint.number}`;
+  if (breakpoint.pending) {
+    text += ` (${breakpoint.pending}) pending`;
+  } else if (breakpoint.what) {
+    text += ` (${breakpoint.what})`;
+  } else if (breakpoint.func || breakpoint.file) {
+    text += ` at ${breakpoint.func || '??'}${breakpoint.file ? ` (${breakpoint.file}:${breakpoint.line ?? '?'})` : ''}`;
+  } else if (breakpoint.locations.length > 0) {
+    text += ` at ${breakpoint.locations.length} locations`;
+  } else if (breakpoint.addr) {
+    text += ` at ${breakpoint.addr}`;
+  }
+  if (breakpoint.condition) {
+    text += ` if ${breakpoint.condition}`;
+  }
+  if (!breakpoint.enabled) {
+    text += ' [disabled]';
+  }
+  return text;
+}
+
+export interface GdbWatchpointTrigger {
+  number: string;
+  expression: string;
+  oldValue?: string;
+  newValue?: string;
+  // Value read by a read or access watchpoint
+  value?: string;
+}
+
+export interface GdbStopEvent {
+  reason: string;
+  threadId?: string;
+  frame?: GdbFrame;
+  breakpointNumber?: string;
+  signalName?: string;
+  signalMeaning?: string;
+  exitCode?: number;
+  watchpoint?: GdbWatchpointTrigger;
+  syscall?: { number?: number; name?: string };
+  newPid?: number;
+  newExec?: string;
+  // Value returned by the function a `finish` left
+  returnValue?: { variable?: string; value: string };
+}
+
+// Keys under which *stopped reports the watchpoint that triggered
+const WATCHPOINT_KEYS = ['wpt', 'hw-rwpt', 'hw-awpt'];
+
+/**
+ * Read an exit code as GDB prints it in both `*stopped` and
+ * `=thread-group-exited`: in octal, e.g. "01" for 1 and "0377" for 255
+ */
+export function parseExitCode(value: string | undefined): number | undefined {
+  if (value === undefined || !/^[0-7]+$/.test(value)) {
+    return undefined;
+  }
+  return parseInt(value, 8);
+}
+
+/**
+ * Convert the results of a `*stopped` record into a stop event
+ */
+export function toStopEvent(tuple: MiTuple): GdbStopEvent {
+  const event: GdbStopEvent = { reason: miString(tuple, 'reason') || 'unknown' };
+  const threadId = miString(tuple, 'thread-id');
+  const frame = tuple.frame;
+  const breakpointNumber = miString(tuple, 'bkptno');
+  const signalName = miString(tuple, 'signal-name');
+  const signalMeaning = miString(tuple, 'signal-meaning');
+  const exitCode = parseExitCode(miString(tuple, 'exit-code'));
+  if (threadId !== undefined) event.threadId = threadId;
+  if (frame !== undefined && typeof frame === 'object' && !Array.isArray(frame)) event.frame = toFrame(frame);
+  if (breakpointNumber !== undefined) event.breakpointNumber = breakpointNumber;
+  if (signalName !== undefined) event.signalName = signalName;
+  if (signalMeaning !== undefined) event.signalMeaning = signalMeaning;
+  if (exitCode !== undefined) event.exitCode = exitCode;
+  if (event.reason === 'exited-normally') event.exitCode = 0;
+  
+  const watchpointKey = WATCHPOINT_KEYS.find((key) => tuple[key] !== undefined);
+  if (watchpointKey) {
+    const wpt = tuple[watchpointKey] as MiTuple;
+    const value = (tuple.value ?? {}) as MiTuple;
+    const trigger: GdbWatchpointTrigger = {
+      number: miString(wpt, 'number') || '',
+      expression: miString(wpt, 'exp') || ''
+    };
+    const oldValue = miString(value, 'old');
+    const newValue = miString(value, 'new');
+    const readValue = miString(value, 'value');
+    if (oldValue !== undefined) trigger.oldValue = oldValue;
+    if (newValue !== undefined) trigger.newValue = newValue;
+    if (readValue !== undefined) trigger.value = readValue;
+    event.watchpoint = trigger;
+    event.breakpointNumber ??= trigger.number;
+  }
+  
+  const syscallNumber = miNumber(tuple, 'syscall-number');
+  const syscallName = miString(tuple, 'syscall-name');
+  if (syscallNumber !== undefined || syscallName !== undefined) {
+    event.syscall = {};
+    if (syscallNumber !== undefined) event.syscall.number = syscallNumber;
+    if (syscallName !== undefined) event.syscall.name = syscallName;
+  }
+  const newPid = miNumber(tuple, 'newpid');
+  const newExec = miString(tuple, 'new-exec');
+  if (newPid !== undefined) event.newPid = newPid;
+  if (newExec !== undefined) event.newExec = newExec;
+  const returnValue = miString(tuple, 'return-value');
+  if (returnValue !== undefined) {
+    event.returnValue = { value: returnValue };
+    const variable = miString(tuple, 'gdb-result-var');
+    if (variable !== undefined) event.returnValue.variable = variable;
+  }
+  return event;
+}
+
+/**
+ * One-line description of a stop event, e.g. "Stopped (breakpoint-hit) in main at crash.c:17"
+ */
+export function describeStopEvent(event: GdbStopEvent): string {
+  let text = `Stopped (${event.reason})`;
+  if (event.signalName) {
+    text += ` with ${event.signalName}${event.signalMeaning ? ` (${event.signalMeaning})` : ''}`;
+  }
+  if (event.exitCode !== undefined) {
+    text += ` with exit code ${event.exitCode}`;
+  }
+  if (event.watchpoint) {
+    const { number, expression, oldValue, newValue, value } = event.watchpoint;
+    text += ` on watchpoint ${number} (${expression})`;
+    if (oldValue !== undefined || newValue !== undefined) {
+      text += `: ${oldValue ?? '?'} -> ${newValue ?? '?'}`;
+    } else if (value !== undefined) {
+      text += `: value ${value}`;
+    }
+  }
+  if (event.syscall) {
+    text += ` in syscall ${event.syscall.name ?? event.syscall.number}`;
+  }
+  if (event.newPid !== undefined) {
+    text += ` forking process ${event.newPid}`;
+  }
+  if (event.newExec !== undefined) {
+    text += ` executing ${event.newExec}`;
+  }
+  if (event.frame) {
+    text += ` in ${event.frame.func || '??'}`;
+    if (event.frame.file) {
+      text += ` at ${event.frame.file}:${event.frame.line ?? '?'}`;
+    } else if (event.frame.addr) {
+      text += ` at ${event.frame.addr}`;
+    }
+  }
+  return text;
+}
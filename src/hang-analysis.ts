@@ -0,0 +1,132 @@
+/**
+ * Analysis of a hung process from the backtraces of all of its threads.
+ *
+ * The functions here only look at frames already collected from GDB; the
+ * server does the evaluation of mutex owners and feeds the results back in.
+ */
+
+import { GdbFrame, GdbThread } from './gdb-records.js';
+
+export type WaitKind = 'mutex' | 'rwlock' | 'condvar' | 'futex';
+
+export interface ThreadWait {
+  kind: WaitKind;
+  // Frame in which the lock function was called with the lock object
+  frameLevel: number;
+  function: string;
+  // Address of the lock object, when it could be determined
+  object?: string;
+  // Symbol of the lock object, e.g. "lock_a" for "0x4040 <lock_a>"
+  symbol?: string;
+  // For mutexes, the LWP and thread ID of the owner reported by glibc
+  ownerLwp?: number;
+  ownerThreadId?: string;
+}
+
+export interface StackGroup {
+  threadIds: string[];
+  frames: GdbFrame[];
+}
+
+export interface WaitForEdge {
+  from: string;
+  to: string;
+  object?: string;
+  symbol?: string;
+}
+
+// Functions a blocked thread sits in, with the name of the parameter that
+// holds the lock object when glibc has debug info
+const WAIT_FUNCTIONS: { pattern: RegExp; kind: WaitKind; argument?: string }[] = [
+  { pattern: /^_*pthread_cond_(timed|clock)?wait/, kind: 'condvar', argument: 'cond' },
+  { pattern: /^_*pthread_rwlock_(timed|clock)?(rd|wr)lock/, kind: 'rwlock', argument: 'rwlock' },
+  { pattern: /^_*pthread_mutex_(timed|clock)?lock/, kind: 'mutex', argument: 'mutex' },
+  { pattern: /^(__lll_lock_wait|__lll_lock_wait_private)$/, kind: 'mutex' },
+  { pattern: /^(__futex_abstimed_wait|futex_wait|__GI___futex)/, kind: 'futex' }
+];
+
+/**
+ * Extract the LWP of a thread from its target ID, e.g. "Thread 0x7f... (LWP 42)"
+ */
+export function threadLwp(thread: GdbThread): number | undefined {
+  const match = /\bLWP (\d+)/.exec(thread.targetId ?? '') ?? /^process (\d+)/.exec(thread.targetId ?? '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Find the outermost blocking lock call in a stack, if any
+ */
+export function classifyWait(frames: GdbFrame[]): ThreadWait | undefined {
+  let wait: ThreadWait | undefined;
+  for (const frame of frames) {
+    const func = frame.func ?? '';
+    const match = WAIT_FUNCTIONS.find((candidate) => candidate.pattern.test(func));
+    if (!match) {
+      // Only look through the contiguous run of libc frames at the top
+      if (wait) break;
+      continue;
+    }
+    // A futex or low-level lock frame inside a pthread call is described by
+    // the pthread call, so keep walking outwards, keeping any lock address
+    // an inner frame already revealed
+    wait = { ...wait, kind: match.kind, frameLevel: frame.level, function: func };
+    const argument = match.argument && frame.args?.find((arg) => arg.name === match.argument);
+    if (argument && argument.value) {
+      const [object, symbol] = parsePointer(argument.value);
+      if (object) wait.object = object;
+      if (symbol) wait.symbol = symbol;
+    }
+  }
+  return wait;
+}
+
+/**
+ * Split a pointer value such as "0x4040 <lock_a>" into address and symbol
+ */
+export function parsePointer(value: string): [string | undefined, string | undefined] {
+  const address = /0x[0-9a-fA-F]+/.exec(value)?.[0];
+  const symbol = /<([^>]+)>/.exec(value)?.[1];
+  return [address, symbol];
+}
+
+/**
+ * Group threads whose stacks call the same functions at the same addresses
+ */
+export function groupStacks(stacks: { threadId: string; frames: GdbFrame[] }[]): StackGroup[] {
+  const groups = new Map<string, StackGroup>();
+  for (const { threadId, frames } of stacks) {
+    const key = frames.map((frame) => `${frame.func ?? '??'}@${frame.addr ?? ''}`).join('|');
+    const group = groups.get(key);
+    if (group) {
+      group.threadIds.push(threadId);
+    } else {
+      groups.set(key, { threadIds: [threadId], frames });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.threadIds.length - a.threadIds.length);
+}
+
+/**
+ * Find cycles in a wait-for graph. Each thread waits on at most one lock,
+ * so every node has at most one outgoing edge.
+ */
+export function findWaitCycles(edges: WaitForEdge[]): string[][] {
+  const next = new Map(edges.map((edge) => [edge.from, edge.to]));
+  const visited = new Set<string>();
+  const cycles: string[][] = [];
+  for (const start of next.keys()) {
+    const path: string[] = [];
+    let node: string | undefined = start;
+    while (node !== undefined && !visited.has(node)) {
+      visited.add(node);
+      path.push(node);
+      node = next.get(node);
+    }
+    // Only a cycle if the walk ran into a node on this very path
+    const index = node !== undefined ? path.indexOf(node) : -1;
+    if (index >= 0) {
+      cycles.push(path.slice(index));
+    }
+  }
+  return cycles;
+}
@@ -2,6 +2,7 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ErrorCode,
   ListToolsRequestSchema,
@@ -10,7 +11,113 @@ import {
 import { spawn, ChildProcess } from 'child_process';
 import * as readline from 'readline';
 import * as fs from 'fs';
+import * as net from 'net';
 import * as path from 'path';
+import { EventEmitter } from 'events';
+import {
+  MiAsyncRecord,
+  MiResultRecord,
+  MiStreamRecord,
+  MiTuple,
+  miArgument,
+  miList,
+  miNumber,
+  quoteMiString,
+  miString,
+  parseMiLine
+} from './mi-parser.js';
+import {
+  GdbAddressInfo,
+  GdbBreakpoint,
+  GdbFrame,
+  GdbInstruction,
+  GdbMemoryRegion,
+  GdbRegister,
+  GdbSharedLibrary,
+  GdbStopEvent,
+  GdbThread,
+  GdbVarobj,
+  describeAddressInfo,
+  describeBreakpoint,
+  describeFrame,
+  describeInstruction,
+  describeMemoryRegion,
+  describeStopEvent,
+  findMemoryRegion,
+  parseExitCode,
+  parseMemoryRegions,
+  parseRecordStatus,
+  parseSharedLibraries,
+  parseSymbolInfo,
+  toBreakpoint,
+  toBreakpointTable,
+  toFrames,
+  toRegisters,
+  toSharedLibraries,
+  toStopEvent,
+  toInstructions,
+  toSourceInstructions,
+  toThreads,
+  toVarobj,
+  toVarobjChanges,
+  toVarobjs,
+  toVariables
+} from './gdb-records.js';
+import {
+  ProgramIo,
+  closeProgramInput,
+  closeProgramIo,
+  createProgramIo,
+  createGdbserverStderrSplitter,
+  reopenProgramInput,
+  writeProgramInput
+} from './program-io.js';
+import {
+  CoreAnalysis,
+  CrashReport,
+  CrashSignal,
+  bucketCrashes,
+  describeCrashReport,
+  instructionWindow,
+  parseCoreSignal,
+  SIGNATURE_DEPTH,
+  stackSignature
+} from './crash-report.js';
+import {
+  FrameSnapshot,
+  StopContext,
+  describeStopContext,
+  diffLocals,
+  isSameFunction,
+  readSourceSnippet
+} from './stop-context.js';
+import {
+  ThreadWait,
+  WaitForEdge,
+  classifyWait,
+  findWaitCycles,
+  groupStacks,
+  parsePointer,
+  threadLwp
+} from './hang-analysis.js';
+import { resumesPastLogpoint } from './logpoints.js';
+
+// Result of a single MI command, correlated by its token
+interface GdbCommandResult {
+  record: MiResultRecord;
+  console: string;
+  target: string;
+  log: string;
+}
+
+// Command written to GDB that is still waiting for its result record
+interface PendingCommand {
+  token: number;
+  command: string;
+  streams: MiStreamRecord[];
+  resolve: (result: GdbCommandResult) => void;
+  reject: (error: Error) => void;
+}
 
 // Interface for GDB session
 interface GdbSession {
@@ -19,12 +126,372 @@ interface GdbSession {
   ready: boolean;
   id: string;
   target?: string;
+  // Remote stub the session is connected to, if any
+  remote?: RemoteConnection;
+  // gdbserver started for this session by gdb_launch_gdbserver
+  gdbserver?: ManagedGdbserver;
   workingDir?: string;
+  // Arguments the inferior is started with, as an argv array
+  programArgs: string[];
+  programIo?: ProgramIo;
+  // Whether the current run of the inferior has its streams on programIo
+  programIoRedirected?: boolean;
+  // Timeout for commands that do not specify their own
+  defaultTimeoutMs: number;
+  // Tool calls waiting for the call currently holding the session
+  callQueue: QueuedCall[];
+  activeCall?: string;
+  nextToken: number;
+  pendingCommands: Map<number, PendingCommand>;
+  // Out-of-band records: 'exec', 'status', 'notify' (MiAsyncRecord),
+  // 'stream' (MiStreamRecord not belonging to a command), 'stopped'
+  // (GdbStopEvent) and 'prompt'
+  events: EventEmitter;
+  state: ExecutionState;
+  lastStop?: GdbStopEvent;
+  // Logpoints by key: the breakpoint number, or "dN" for dprintf logpoints
+  logpoints: Map<string, Logpoint>;
+  nextLogpointId: number;
+  // Most recent stop events, oldest first, capped at MAX_STOP_EVENTS
+  stopEvents: RecordedStopEvent[];
+  stopEventCount: number;
+  // Expressions re-evaluated whenever a stepping or continue call stops
+  watchExpressions: WatchExpression[];
+  nextWatchExpressionId: number;
+}
+
+// Connection made by gdb_connect_remote
+interface RemoteConnection {
+  // As given to "target remote": host:port, a serial device, or "| command"
+  address: string;
+  extended: boolean;
+}
+
+// gdbserver process owned by a session, killed when the session ends
+// unless kept alive for a later session to connect to
+interface ManagedGdbserver {
+  process: ChildProcess;
+  address: string;
+  port: number;
+  program?: string;
+  attachedPid?: number;
+  keepAlive: boolean;
+  // Where the output of a program gdbserver started goes; unset while no
+  // session holds a kept gdbserver, and the output is dropped
+  io?: ProgramIo;
+  // gdbserver's own messages, most recent last
+  messages: string[];
+}
+
+// Execution state of the inferior as seen through MI async records
+type ExecutionState = 'not-started' | 'running' | 'stopped' | 'exited' | 'crashed';
+
+// Stop event as kept in a session's history
+interface RecordedStopEvent extends GdbStopEvent {
+  index: number;
+  timestamp: string;
+  state: ExecutionState;
+  // Exit derived from =thread-group-exited because no *stopped reported it
+  inferred?: boolean;
+}
+
+// Breakpoint that records expression values on each hit without stopping
+interface Logpoint {
+  key: string;
+  number: string;
+  mode: 'breakpoint' | 'dprintf';
+  location: string;
+  expressions: string[];
+  hits: LogpointHit[];
+  totalHits: number;
+}
+
+interface LogpointHit {
+  index: number;
+  timestamp: string;
+  threadId?: string;
+  frame?: { func?: string; file?: string; line?: number };
+  values: Record<string, string>;
+  // Expressions that could not be evaluated at this hit
+  errors?: Record<string, string>;
+}
+
+// Expression evaluated at every stop, remembering its value at the last one
+interface WatchExpression {
+  id: number;
+  expression: string;
+  lastValue?: string;
+  lastError?: string;
+  // Evaluation at the most recent stop, shared by everything that reports it
+  evaluation?: { stopIndex: number; result: Promise<WatchExpressionValue> };
+}
+
+// Value of a watch expression at a stop, compared with the previous stop
+interface WatchExpressionValue {
+  id: number;
+  expression: string;
+  value?: string;
+  error?: string;
+  status: 'new' | 'changed' | 'unchanged';
+  previousValue?: string;
+}
+
+// Display formats GDB accepts for variable objects
+const VAROBJ_FORMATS = ['natural', 'binary', 'decimal', 'hexadecimal', 'octal', 'zero-hexadecimal'];
+
+// Size limits for the memory tools, in bytes
+const MAX_MEMORY_READ = 64 * 1024;
+const MAX_MEMORY_WRITE = 4096;
+const MAX_MEMORY_SEARCH = 256 * 1024 * 1024;
+const MAX_MEMORY_DUMP = 64 * 1024 * 1024;
+
+// Bytes of a memory read shown as a hex dump in the text of a result
+const HEX_DUMP_PREVIEW = 256;
+
+// Most matches gdb_find_memory reports unless told otherwise
+const DEFAULT_FIND_MATCHES = 100;
+
+// Most instructions gdb_disassemble returns in one call
+const MAX_DISASSEMBLY_INSTRUCTIONS = 2000;
+
+// Instructions shown on each side of $pc when disassembling around it
+const DEFAULT_DISASSEMBLY_CONTEXT = 10;
+
+// Hard cap on the steps gdb_step_until_condition takes
+const MAX_CONDITION_STEPS = 1000;
+
+// Number of hits kept per logpoint
+const MAX_LOGPOINT_HITS = 1000;
+
+// dprintf logpoints print "<US>mcp-logpoint <id> <thread><RS>value<RS>value<US>"
+const LOGPOINT_MARKER = /\x1fmcp-logpoint (\d+) (\d+)\x1e([\s\S]*?)\x1f\n?/g;
+
+// Number of stop events kept per session
+const MAX_STOP_EVENTS = 100;
+
+// How long to wait for the *stopped record that normally follows
+// =thread-group-exited before assuming none will come (e.g. lost remote)
+const INFERRED_EXIT_DELAY_MS = 200;
+
+// Number of gdbserver messages kept per gdbserver
+const MAX_GDBSERVER_MESSAGES = 100;
+
+// -break-watch options for each watchpoint access type
+const WATCHPOINT_ACCESS_FLAGS: Record<string, string> = {
+  write: '',
+  read: ' -r',
+  access: ' -a'
+};
+
+// Signals that mean the inferior crashed rather than was merely interrupted
+const FATAL_SIGNALS = new Set(['SIGSEGV', 'SIGBUS', 'SIGABRT', 'SIGFPE', 'SIGILL', 'SIGSYS']);
+
+// Tool call waiting for its turn on a session
+interface QueuedCall {
+  tool: string;
+  start: () => void;
+  cancel: (error: Error) => void;
+}
+
+// Tools that only read server-side state or must be able to preempt a
+// long-running call, and so bypass the per-session queue
+const UNQUEUED_TOOLS = new Set([
+  'gdb_list_sessions',
+  'gdb_session_status',
+  'gdb_get_logpoint_hits',
+  'gdb_list_watch_expressions',
+  'gdb_interrupt',
+  'gdb_terminate',
+  'gdb_read_program_output',
+  'gdb_write_program_input'
+]);
+
+// Tools answered from server-side state without running GDB commands
+const SERVER_STATE_TOOLS = new Set([
+  'gdb_session_status',
+  'gdb_get_logpoint_hits',
+  'gdb_add_watch_expression',
+  'gdb_remove_watch_expression',
+  'gdb_list_watch_expressions',
+  'gdb_read_program_output',
+  'gdb_write_program_input'
+]);
+
+// Outcome of an execution-control command
+interface ExecResult {
+  output: string;
+  stop?: GdbStopEvent;
 }
 
+// Number of cores gdb_analyze_cores loads at once unless told otherwise
+const DEFAULT_CORE_PARALLELISM = 4;
+
 // Map to store active GDB sessions
 const activeSessions = new Map<string, GdbSession>();
 
+// gdbservers kept alive after their session ended, by address, until a
+// session connects to them again
+const keptGdbservers = new Map<string, ManagedGdbserver>();
+
+// Timeout applied when neither the tool call nor the session specifies one
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Resolve the server-wide default timeout from `--timeout-ms <ms>` or the
+ * GDB_MCP_TIMEOUT_MS environment variable
+ */
+function resolveServerTimeout(): number {
+  const flagIndex = process.argv.indexOf('--timeout-ms');
+  const candidates = [
+    flagIndex >= 0 ? process.argv[flagIndex + 1] : undefined,
+    process.env.GDB_MCP_TIMEOUT_MS
+  ];
+  for (const candidate of candidates) {
+    const value = Number(candidate);
+    if (candidate !== undefined && Number.isFinite(value) && value > 0) {
+      return value;
+    }
+  }
+  return DEFAULT_TIMEOUT_MS;
+}
+
+const serverTimeoutMs = resolveServerTimeout();
+
+/**
+ * Quote an argument for the shell GDB uses to start the inferior
+ */
+function quoteShellArgument(arg: string): string {
+  if (/[\r\n]/.test(arg)) {
+    throw new Error(`Program arguments cannot contain line breaks: ${JSON.stringify(arg)}`);
+  }
+  return /^[A-Za-z0-9_\-.,:/=@%+]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Whether a value printed by GDB counts as true in a condition
+ */
+function isTruthy(value: string): boolean {
+  const text = value.trim().split(' ')[0];
+  return !/^(-?0+(\.0*)?|0x0+|false)$/.test(text);
+}
+
+/**
+ * Whether two paths name the same file. The loader and the kernel can name
+ * a library differently (e.g. /lib64 against /usr/lib64), so fall back to
+ * the resolved path and then the file name.
+ */
+function isSameFile(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  try {
+    return fs.realpathSync(a) === fs.realpathSync(b);
+  } catch (error) {
+    return path.basename(a) === path.basename(b);
+  }
+}
+
+/**
+ * Format bytes as a classic 16-bytes-per-line hex dump with an ASCII column
+ */
+function formatHexDump(bytes: Buffer, baseAddress: bigint): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const chunk = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(chunk, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk, (byte) => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+    lines.push(`0x${(baseAddress + BigInt(offset)).toString(16)}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Check a byte count against a tool's limit
+ */
+function checkMemoryLength(length: unknown, limit: number): number {
+  const value = Number(length);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`length must be a positive integer, got ${length}`);
+  }
+  if (value > limit) {
+    throw new Error(`length ${value} exceeds the limit of ${limit} bytes`);
+  }
+  return value;
+}
+
+/**
+ * Ask the OS for a TCP port that is free on `host`. Another process could
+ * take it before gdbserver binds it, which the caller reports as a failure.
+ */
+function findFreePort(host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.on('error', reject);
+    probe.listen(0, host, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Start gdbserver and wait until it listens. `target` is the program and its
+ * arguments, or `--attach <pid>`, or `--multi` with nothing to debug yet.
+ */
+function spawnGdbserver(gdbserverPath: string, address: string, target: string[], cwd: string | undefined, timeoutMs: number): Promise<ChildProcess> {
+  const targetArgs = target[0] === '--attach' || target[0] === '--multi'
+    ? [target[0], address, ...target.slice(1)]
+    : [address, ...target];
+  const child = spawn(gdbserverPath, targetArgs, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+  
+  return new Promise((resolve, reject) => {
+    let stderr = '';
+    const fail = (error: Error) => {
+      clearTimeout(timeout);
+      child.stderr!.removeListener('data', onData);
+      if (child.exitCode === null) {
+        child.kill();
+      }
+      reject(error);
+    };
+    const onData = (data: Buffer) => {
+      stderr += data.toString();
+      if (/Listening on port \d+/.test(stderr)) {
+        clearTimeout(timeout);
+        child.stderr!.removeListener('data', onData);
+        child.removeListener('exit', onExit);
+        resolve(child);
+      }
+    };
+    const onExit = (code: number | null) => fail(new Error(`gdbserver exited with code ${code}${stderr ? `\n\n${stderr}` : ''}`));
+    const timeout = setTimeout(() => fail(new Error(`gdbserver did not start listening within ${timeoutMs} ms${stderr ? `\n\n${stderr}` : ''}`)), timeoutMs);
+    child.stderr!.on('data', onData);
+    child.once('exit', onExit);
+    child.once('error', fail);
+  });
+}
+
+/**
+ * Expand a directory, a single file, or a glob with wildcards (`*`, `?`) in
+ * its last path component into a sorted list of core files
+ */
+function resolveCoreFiles(pattern: string): string[] {
+  const isGlob = /[*?]/.test(path.basename(pattern));
+  if (!isGlob && fs.existsSync(pattern) && fs.statSync(pattern).isFile()) {
+    return [pattern];
+  }
+  
+  const dir = isGlob ? path.dirname(pattern) : pattern;
+  const nameRegex = isGlob
+    ? new RegExp(`^${path.basename(pattern).replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
+    : undefined;
+  return fs.readdirSync(dir)
+    .filter((name) => !nameRegex || nameRegex.test(name))
+    .map((name) => path.join(dir, name))
+    .filter((file) => fs.statSync(file).isFile())
+    .sort();
+}
+
 class GdbServer {
   private server: Server;
 
@@ -50,6 +517,10 @@ class GdbServer {
       for (const [id, session] of activeSessions.entries()) {
         await this.terminateGdbSession(id);
       }
+      // A kept gdbserver lives only as long as the server
+      for (const gdbserver of keptGdbservers.values()) {
+        gdbserver.process.kill();
+      }
       await this.server.close();
       process.exit(0);
     });
@@ -57,7 +528,7 @@ class GdbServer {
 
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+      tools: this.withTimeoutOption([
         {
           name: 'gdb_start',
           description: 'Start a new GDB session',
@@ -71,6 +542,14 @@ class GdbServer {
               workingDir: {
                 type: 'string',
                 description: 'Working directory for GDB (optional)'
+              },
+              timeoutMs: {
+                type: 'number',
+                description: 'Default timeout in milliseconds for commands in this session (optional)'
+              },
+              captureProgramOutput: {
+                type: 'boolean',
+                description: 'Capture the program stdout/stderr separately from GDB output for gdb_read_program_output (optional, default is true)'
               }
             }
           }
@@ -140,6 +619,24 @@ class GdbServer {
             properties: {}
           }
         },
+        {
+          name: 'gdb_session_status',
+          description: 'Report the execution state of a session and its recent stop events',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of recent stop events to include (optional, default is 10)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
         {
           name: 'gdb_attach',
           description: 'Attach to a running process',
@@ -159,8 +656,8 @@ class GdbServer {
           }
         },
         {
-          name: 'gdb_load_core',
-          description: 'Load a core dump file',
+          name: 'gdb_connect_remote',
+          description: 'Connect to a remote target such as gdbserver',
           inputSchema: {
             type: 'object',
             properties: {
@@ -168,21 +665,37 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
+              address: {
+                type: 'string',
+                description: 'Target to connect to: "host:port", a serial device, or "| command" to talk to a stub over a pipe (e.g. "| gdbserver - ./prog")'
+              },
+              extended: {
+                type: 'boolean',
+                description: 'Use "target extended-remote", which can run and restart programs on the target (optional, default is false)'
+              },
               program: {
                 type: 'string',
-                description: 'Path to the program executable'
+                description: 'Local copy of the program, for symbols (optional)'
               },
-              corePath: {
+              remoteProgram: {
                 type: 'string',
-                description: 'Path to the core dump file'
+                description: 'Path of the program on the target, used by gdb_run with extended-remote (optional)'
+              },
+              sysroot: {
+                type: 'string',
+                description: 'Local directory holding a copy of the target root filesystem, for shared library symbols (optional, "target:" reads them from the target)'
+              },
+              solibSearchPath: {
+                type: 'string',
+                description: 'Additional directories to search for shared library symbols, separated by ":" (optional)'
               }
             },
-            required: ['sessionId', 'program', 'corePath']
+            required: ['sessionId', 'address']
           }
         },
         {
-          name: 'gdb_set_breakpoint',
-          description: 'Set a breakpoint',
+          name: 'gdb_disconnect',
+          description: 'Detach from the remote program and close the connection to the target',
           inputSchema: {
             type: 'object',
             properties: {
@@ -190,35 +703,70 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              location: {
-                type: 'string',
-                description: 'Breakpoint location (e.g., function name, file:line)'
-              },
-              condition: {
-                type: 'string',
-                description: 'Breakpoint condition (optional)'
+              kill: {
+                type: 'boolean',
+                description: 'Kill the program instead of letting it continue (optional, default is false)'
               }
             },
-            required: ['sessionId', 'location']
+            required: ['sessionId']
           }
         },
         {
-          name: 'gdb_continue',
-          description: 'Continue program execution',
+          name: 'gdb_launch_gdbserver',
+          description: 'Start gdbserver for a program or a running process on a free local port and connect the session to it; gdbserver is stopped when the session terminates unless keepAlive is set',
           inputSchema: {
             type: 'object',
             properties: {
               sessionId: {
                 type: 'string',
                 description: 'GDB session ID'
+              },
+              program: {
+                type: 'string',
+                description: 'Program for gdbserver to start (optional, give either program or pid)'
+              },
+              arguments: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Command-line arguments for the program (optional)'
+              },
+              pid: {
+                type: 'number',
+                description: 'Process ID for gdbserver to attach to (optional)'
+              },
+              gdbserverPath: {
+                type: 'string',
+                description: 'Path to the gdbserver executable (optional, defaults to "gdbserver")'
+              },
+              host: {
+                type: 'string',
+                description: 'Interface gdbserver listens on (optional, defaults to "localhost")'
+              },
+              multi: {
+                type: 'boolean',
+                description: 'Start gdbserver with --multi and connect with extended-remote, so programs can be run and rerun (optional, default is false)'
+              },
+              sysroot: {
+                type: 'string',
+                description: 'Sysroot for shared library symbols (optional)'
+              },
+              connect: {
+                type: 'boolean',
+                description: 'Connect the session to gdbserver once it listens (optional, default is true)'
+              },
+              keepAlive: {
+                type: 'boolean',
+                description: 'When the session terminates, disconnect and leave gdbserver and the stopped program running, so a new session can reconnect with gdb_connect_remote to the same address (optional, default is false)'
               }
             },
             required: ['sessionId']
           }
         },
         {
-          name: 'gdb_step',
-          description: 'Step program execution',
+          name: 'gdb_stop_gdbserver',
+          description: 'Disconnect from and stop the gdbserver started by gdb_launch_gdbserver',
           inputSchema: {
             type: 'object',
             properties: {
@@ -226,17 +774,17 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              instructions: {
+              kill: {
                 type: 'boolean',
-                description: 'Step by instructions instead of source lines (optional)'
+                description: 'Kill the program being debugged (true) or detach and leave it running (false) (optional, by default a program gdbserver started is killed and an attached process is left running)'
               }
             },
             required: ['sessionId']
           }
         },
         {
-          name: 'gdb_next',
-          description: 'Step over function calls',
+          name: 'gdb_remote_upload',
+          description: 'Copy a local file to the remote target',
           inputSchema: {
             type: 'object',
             properties: {
@@ -244,31 +792,43 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              instructions: {
-                type: 'boolean',
-                description: 'Step by instructions instead of source lines (optional)'
+              localPath: {
+                type: 'string',
+                description: 'File to copy from this machine'
+              },
+              remotePath: {
+                type: 'string',
+                description: 'Destination path on the target'
               }
             },
-            required: ['sessionId']
+            required: ['sessionId', 'localPath', 'remotePath']
           }
         },
         {
-          name: 'gdb_finish',
-          description: 'Execute until the current function returns',
+          name: 'gdb_remote_download',
+          description: 'Copy a file from the remote target to this machine',
           inputSchema: {
             type: 'object',
             properties: {
               sessionId: {
                 type: 'string',
                 description: 'GDB session ID'
+              },
+              remotePath: {
+                type: 'string',
+                description: 'File to copy from the target'
+              },
+              localPath: {
+                type: 'string',
+                description: 'Destination path on this machine'
               }
             },
-            required: ['sessionId']
+            required: ['sessionId', 'remotePath', 'localPath']
           }
         },
         {
-          name: 'gdb_backtrace',
-          description: 'Show call stack',
+          name: 'gdb_load_core',
+          description: 'Load a core dump file',
           inputSchema: {
             type: 'object',
             properties: {
@@ -276,21 +836,21 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              full: {
-                type: 'boolean',
-                description: 'Show variables in each frame (optional)'
+              program: {
+                type: 'string',
+                description: 'Path to the program executable'
               },
-              limit: {
-                type: 'number',
-                description: 'Maximum number of frames to show (optional)'
+              corePath: {
+                type: 'string',
+                description: 'Path to the core dump file'
               }
             },
-            required: ['sessionId']
+            required: ['sessionId', 'program', 'corePath']
           }
         },
         {
-          name: 'gdb_print',
-          description: 'Print value of expression',
+          name: 'gdb_crash_report',
+          description: 'Build a triage report for a crash: signal and siginfo, faulting address and its mapping, crashing thread frames with locals, disassembly around $pc, registers and a stack hash for deduplication',
           inputSchema: {
             type: 'object',
             properties: {
@@ -298,43 +858,63 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              expression: {
+              program: {
                 type: 'string',
-                description: 'Expression to evaluate'
+                description: 'Path to the program executable (optional, required with corePath)'
+              },
+              corePath: {
+                type: 'string',
+                description: 'Core dump to load first (optional, by default the report covers the current program or core)'
+              },
+              frameLimit: {
+                type: 'number',
+                description: 'Maximum number of frames to include (optional, default is 32)'
               }
             },
-            required: ['sessionId', 'expression']
+            required: ['sessionId']
           }
         },
         {
-          name: 'gdb_examine',
-          description: 'Examine memory',
+          name: 'gdb_analyze_cores',
+          description: 'Load many core dumps of one program in separate GDB sessions and group them into buckets of crashes with the same stack signature',
           inputSchema: {
             type: 'object',
             properties: {
-              sessionId: {
+              program: {
                 type: 'string',
-                description: 'GDB session ID'
+                description: 'Path to the program executable that produced the cores'
               },
-              expression: {
+              cores: {
                 type: 'string',
-                description: 'Memory address or expression'
+                description: 'Directory of core files, or a glob such as "/tmp/cores/core.*" (wildcards only in the file name)'
               },
-              format: {
+              gdbPath: {
                 type: 'string',
-                description: 'Display format (e.g., "x" for hex, "i" for instruction)'
+                description: 'Path to the GDB executable (optional, defaults to "gdb")'
               },
-              count: {
+              parallelism: {
                 type: 'number',
-                description: 'Number of units to display'
+                description: `Number of cores to analyze at once (optional, default is ${DEFAULT_CORE_PARALLELISM})`
+              },
+              signatureDepth: {
+                type: 'number',
+                description: `Number of innermost frames that make up the signature (optional, default is ${SIGNATURE_DEPTH})`
+              },
+              frameLimit: {
+                type: 'number',
+                description: 'Maximum number of frames to collect per core (optional, default is 32)'
+              },
+              timeoutMs: {
+                type: 'number',
+                description: 'Timeout in milliseconds for each GDB command (optional)'
               }
             },
-            required: ['sessionId', 'expression']
+            required: ['program', 'cores']
           }
         },
         {
-          name: 'gdb_info_registers',
-          description: 'Display registers',
+          name: 'gdb_read_program_output',
+          description: 'Read what the program wrote to stdout and stderr since the last call',
           inputSchema: {
             type: 'object',
             properties: {
@@ -342,17 +922,25 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              register: {
-                type: 'string',
-                description: 'Specific register to display (optional)'
+              stdoutOffset: {
+                type: 'number',
+                description: 'Offset to read stdout from (optional, defaults to where the previous call stopped)'
+              },
+              stderrOffset: {
+                type: 'number',
+                description: 'Offset to read stderr from (optional, defaults to where the previous call stopped)'
+              },
+              maxLength: {
+                type: 'number',
+                description: 'Maximum number of characters to return per stream (optional, default is 65536)'
               }
             },
             required: ['sessionId']
           }
         },
         {
-          name: 'gdb_list_source',
-          description: 'List source code at current location or specified location, with VS Code integration',
+          name: 'gdb_write_program_input',
+          description: 'Write data to the program stdin',
           inputSchema: {
             type: 'object',
             properties: {
@@ -360,161 +948,4096 @@ class GdbServer {
                 type: 'string',
                 description: 'GDB session ID'
               },
-              location: {
+              data: {
                 type: 'string',
-                description: 'Source location (e.g., function name, file:line, optional)'
+                description: 'Text to write'
               },
-              lineCount: {
-                type: 'number',
-                description: 'Number of lines to show (optional, default is 10)'
+              newline: {
+                type: 'boolean',
+                description: 'Append a newline to the data (optional)'
+              },
+              eof: {
+                type: 'boolean',
+                description: 'Close stdin after writing so the program sees end of file (optional)'
               }
             },
             required: ['sessionId']
           }
-        }
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      // Route the tool call to the appropriate handler based on the tool name
-      switch (request.params.name) {
-        case 'gdb_start':
-          return await this.handleGdbStart(request.params.arguments);
-        case 'gdb_load':
-          return await this.handleGdbLoad(request.params.arguments);
-        case 'gdb_command':
-          return await this.handleGdbCommand(request.params.arguments);
-        case 'gdb_terminate':
-          return await this.handleGdbTerminate(request.params.arguments);
-        case 'gdb_list_sessions':
-          return await this.handleGdbListSessions();
-        case 'gdb_attach':
-          return await this.handleGdbAttach(request.params.arguments);
-        case 'gdb_load_core':
-          return await this.handleGdbLoadCore(request.params.arguments);
-        case 'gdb_set_breakpoint':
-          return await this.handleGdbSetBreakpoint(request.params.arguments);
-        case 'gdb_continue':
-          return await this.handleGdbContinue(request.params.arguments);
-        case 'gdb_step':
-          return await this.handleGdbStep(request.params.arguments);
-        case 'gdb_next':
-          return await this.handleGdbNext(request.params.arguments);
-        case 'gdb_finish':
-          return await this.handleGdbFinish(request.params.arguments);
-        case 'gdb_backtrace':
-          return await this.handleGdbBacktrace(request.params.arguments);
-        case 'gdb_print':
-          return await this.handleGdbPrint(request.params.arguments);
-        case 'gdb_examine':
-          return await this.handleGdbExamine(request.params.arguments);
-        case 'gdb_info_registers':
-          return await this.handleGdbInfoRegisters(request.params.arguments);
-        case 'gdb_list_source':
-          return await this.handleGdbListSource(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
-    });
-  }
-
-  private async handleGdbStart(args: any) {
-    const gdbPath = args.gdbPath || 'gdb';
-    const workingDir = args.workingDir || process.cwd();
-    
-    // Create a unique session ID
-    const sessionId = Date.now().toString();
-    
+        },
+        {
+          name: 'gdb_set_breakpoint',
+          description: 'Set a breakpoint',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              location: {
+                type: 'string',
+                description: 'Breakpoint location (e.g., function name, file:line)'
+              },
+              condition: {
+                type: 'string',
+                description: 'Breakpoint condition (optional)'
+              },
+              ignoreCount: {
+                type: 'number',
+                description: 'Number of hits to ignore before stopping (optional)'
+              },
+              thread: {
+                type: 'number',
+                description: 'Only stop in this thread (optional)'
+              },
+              temporary: {
+                type: 'boolean',
+                description: 'Delete the breakpoint after it is hit once (optional)'
+              },
+              hardware: {
+                type: 'boolean',
+                description: 'Use a hardware breakpoint (optional)'
+              }
+            },
+            required: ['sessionId', 'location']
+          }
+        },
+        {
+          name: 'gdb_set_watchpoint',
+          description: 'Set a watchpoint that stops when an expression is written, read or accessed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              expression: {
+                type: 'string',
+                description: 'Expression to watch (e.g., variable name, *(int *) 0x1234)'
+              },
+              access: {
+                type: 'string',
+                enum: ['write', 'read', 'access'],
+                description: 'Stop when the value is written, read, or either (optional, default is "write")'
+              },
+              condition: {
+                type: 'string',
+                description: 'Watchpoint condition (optional)'
+              },
+              scope: {
+                type: 'string',
+                enum: ['expression', 'location'],
+                description: 'Watch the expression while it is in scope, or the memory it currently refers to regardless of scope (optional, default is "expression")'
+              }
+            },
+            required: ['sessionId', 'expression']
+          }
+        },
+        {
+          name: 'gdb_set_catchpoint',
+          description: 'Set a catchpoint for C++ exceptions, system calls, fork/exec, signals or shared library events',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              event: {
+                type: 'string',
+                enum: ['throw', 'catch', 'rethrow', 'syscall', 'fork', 'vfork', 'exec', 'signal', 'load', 'unload'],
+                description: 'Event to catch'
+              },
+              filter: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Syscall names or numbers, signal names or numbers, or a regular expression matching exception types or library names (optional)'
+              },
+              condition: {
+                type: 'string',
+                description: 'Catchpoint condition (optional)'
+              },
+              temporary: {
+                type: 'boolean',
+                description: 'Delete the catchpoint after it is hit once (optional)'
+              }
+            },
+            required: ['sessionId', 'event']
+          }
+        },
+        {
+          name: 'gdb_set_logpoint',
+          description: 'Set a logpoint that records expression values each time a location is reached, without stopping the program',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              location: {
+                type: 'string',
+                description: 'Logpoint location (e.g., function name, file:line)'
+              },
+              expressions: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Expressions to record on each hit'
+              },
+              condition: {
+                type: 'string',
+                description: 'Only record hits where this condition is true (optional)'
+              },
+              mode: {
+                type: 'string',
+                enum: ['breakpoint', 'dprintf'],
+                description: 'How hits are collected: "breakpoint" briefly stops while the server evaluates the expressions; "dprintf" lets GDB print them with printf formats, which is faster but needs a format per expression (optional, default is "breakpoint")'
+              },
+              formats: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'printf conversion for each expression in dprintf mode, e.g. "%d", "%s", "%p" (optional, default is "%d")'
+              }
+            },
+            required: ['sessionId', 'location', 'expressions']
+          }
+        },
+        {
+          name: 'gdb_get_logpoint_hits',
+          description: 'Get the values recorded by logpoints as a table of hits',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              number: {
+                type: 'string',
+                description: 'Breakpoint number of the logpoint (optional, defaults to all logpoints)'
+              },
+              fromIndex: {
+                type: 'number',
+                description: 'Only return hits with at least this hit index (optional)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of hits to return per logpoint (optional, default is 100)'
+              },
+              clear: {
+                type: 'boolean',
+                description: 'Discard the returned hits afterwards (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_add_watch_expression',
+          description: 'Add an expression that is evaluated at every stop and reported by gdb_step, gdb_next, gdb_finish, gdb_continue and gdb_wait_for_stop',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              expression: {
+                type: 'string',
+                description: 'Expression to evaluate in the selected frame at each stop'
+              }
+            },
+            required: ['sessionId', 'expression']
+          }
+        },
+        {
+          name: 'gdb_remove_watch_expression',
+          description: 'Remove a watch expression',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              id: {
+                type: 'number',
+                description: 'Watch expression ID as returned by gdb_add_watch_expression'
+              }
+            },
+            required: ['sessionId', 'id']
+          }
+        },
+        {
+          name: 'gdb_list_watch_expressions',
+          description: 'List watch expressions with their values at the last stop',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_list_breakpoints',
+          description: 'List all breakpoints, watchpoints and catchpoints',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_delete_breakpoint',
+          description: 'Delete breakpoints',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              numbers: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Breakpoint numbers to delete'
+              }
+            },
+            required: ['sessionId', 'numbers']
+          }
+        },
+        {
+          name: 'gdb_enable_breakpoint',
+          description: 'Enable breakpoints or individual breakpoint locations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              numbers: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Breakpoint numbers, or location numbers such as "2.1"'
+              }
+            },
+            required: ['sessionId', 'numbers']
+          }
+        },
+        {
+          name: 'gdb_disable_breakpoint',
+          description: 'Disable breakpoints or individual breakpoint locations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              numbers: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Breakpoint numbers, or location numbers such as "2.1"'
+              }
+            },
+            required: ['sessionId', 'numbers']
+          }
+        },
+        {
+          name: 'gdb_modify_breakpoint',
+          description: 'Change the condition, ignore count, thread or temporary flag of a breakpoint',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              number: {
+                type: 'string',
+                description: 'Breakpoint number'
+              },
+              condition: {
+                type: 'string',
+                description: 'New condition; an empty string removes the condition (optional)'
+              },
+              ignoreCount: {
+                type: 'number',
+                description: 'Number of hits to ignore before stopping (optional)'
+              },
+              thread: {
+                type: 'number',
+                description: 'Only stop in this thread; 0 removes the restriction (optional)'
+              },
+              temporary: {
+                type: 'boolean',
+                description: 'Delete the breakpoint after it is hit once (optional)'
+              }
+            },
+            required: ['sessionId', 'number']
+          }
+        },
+        {
+          name: 'gdb_run',
+          description: 'Run the loaded program from the beginning',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              arguments: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Command-line arguments for the program, one per element; replaces the arguments set by gdb_load (optional)'
+              },
+              environment: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'string'
+                },
+                description: 'Environment variables to set for the program (optional)'
+              },
+              unsetEnvironment: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Environment variables to remove from the program environment (optional)'
+              },
+              cwd: {
+                type: 'string',
+                description: 'Working directory for the program (optional)'
+              },
+              stdin: {
+                type: 'string',
+                description: 'File to redirect to the program standard input (optional)'
+              },
+              stopAt: {
+                type: 'string',
+                enum: ['none', 'main', 'first-instruction'],
+                description: 'Stop at main or at the first instruction instead of running freely (optional, default is "none")'
+              },
+              async: {
+                type: 'boolean',
+                description: 'Return immediately with a "running" status instead of waiting for the program to stop (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_start_program',
+          description: 'Start the loaded program and stop at main',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              arguments: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Command-line arguments for the program, one per element; replaces the arguments set by gdb_load (optional)'
+              },
+              environment: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'string'
+                },
+                description: 'Environment variables to set for the program (optional)'
+              },
+              unsetEnvironment: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Environment variables to remove from the program environment (optional)'
+              },
+              cwd: {
+                type: 'string',
+                description: 'Working directory for the program (optional)'
+              },
+              stdin: {
+                type: 'string',
+                description: 'File to redirect to the program standard input (optional)'
+              },
+              stopAt: {
+                type: 'string',
+                enum: ['main', 'first-instruction'],
+                description: 'Where to stop (optional, default is "main")'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_continue',
+          description: 'Continue program execution',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              async: {
+                type: 'boolean',
+                description: 'Return immediately with a "running" status instead of waiting for the program to stop (optional)'
+              },
+              reverse: {
+                type: 'boolean',
+                description: 'Run backwards to the previous breakpoint or the start of the recording (optional, requires gdb_record_start)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_interrupt',
+          description: 'Interrupt the running program',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_wait_for_stop',
+          description: 'Wait until the running program stops and report why',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              timeoutMs: {
+                type: 'number',
+                description: 'Maximum time to wait in milliseconds (optional, defaults to the session timeout)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_step',
+          description: 'Step program execution',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              instructions: {
+                type: 'boolean',
+                description: 'Step by instructions instead of source lines (optional)'
+              },
+              count: {
+                type: 'number',
+                description: 'Number of times to step; stops early at a breakpoint, signal or exit (optional, default is 1)'
+              },
+              reverse: {
+                type: 'boolean',
+                description: 'Step backwards, into calls made by the previous line (optional, requires gdb_record_start)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_next',
+          description: 'Step over function calls',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              instructions: {
+                type: 'boolean',
+                description: 'Step by instructions instead of source lines (optional)'
+              },
+              count: {
+                type: 'number',
+                description: 'Number of times to step; stops early at a breakpoint, signal or exit (optional, default is 1)'
+              },
+              reverse: {
+                type: 'boolean',
+                description: 'Step backwards over the previous line (optional, requires gdb_record_start)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_until',
+          description: 'Run until a location is reached or the current frame returns; without a location, step over the current line without going back (e.g. out of a loop)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              location: {
+                type: 'string',
+                description: 'Location to run to, as for gdb_set_breakpoint (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_advance',
+          description: 'Run to a location, stopping early if the current frame returns',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              location: {
+                type: 'string',
+                description: 'Location to run to, as for gdb_set_breakpoint'
+              }
+            },
+            required: ['sessionId', 'location']
+          }
+        },
+        {
+          name: 'gdb_step_until_condition',
+          description: 'Step repeatedly until an expression becomes true, returning the lines visited',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              condition: {
+                type: 'string',
+                description: 'Expression evaluated after each step, e.g. "i == 10" or "ptr == 0"'
+              },
+              mode: {
+                type: 'string',
+                enum: ['step', 'next'],
+                description: 'Step into calls ("step") or over them ("next") (optional, default is "next")'
+              },
+              maxSteps: {
+                type: 'number',
+                description: 'Maximum number of steps before giving up (optional, default is 100, at most ${MAX_CONDITION_STEPS})'
+              }
+            },
+            required: ['sessionId', 'condition']
+          }
+        },
+        {
+          name: 'gdb_finish',
+          description: 'Execute until the current function returns',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              reverse: {
+                type: 'boolean',
+                description: 'Run backwards to the call of the current function (optional, requires gdb_record_start)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_record_start',
+          description: 'Start recording execution so it can be replayed backwards with the reverse option of gdb_step, gdb_next, gdb_finish and gdb_continue',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              method: {
+                type: 'string',
+                enum: ['full', 'btrace'],
+                description: 'Recording method: "full" records every instruction in software, "btrace" uses hardware branch tracing (optional, default is "full")'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_record_stop',
+          description: 'Stop recording and discard the execution log',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_record_status',
+          description: 'Show whether execution is being recorded, the recorded instruction range and the replay position',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_backtrace',
+          description: 'Show call stack as structured frames',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              full: {
+                type: 'boolean',
+                description: 'Show variables in each frame (optional)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of frames to show (optional)'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread to show instead of the selected thread (optional)'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame to start from (optional, default is 0)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_list_threads',
+          description: 'List threads with their state and current frame',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_select_thread',
+          description: 'Select the thread that subsequent commands operate on',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread ID as reported by gdb_list_threads'
+              }
+            },
+            required: ['sessionId', 'threadId']
+          }
+        },
+        {
+          name: 'gdb_select_frame',
+          description: 'Select the stack frame that subsequent commands operate on',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame level, 0 being the innermost frame'
+              }
+            },
+            required: ['sessionId', 'frameLevel']
+          }
+        },
+        {
+          name: 'gdb_thread_apply_backtrace',
+          description: 'Show the call stack of every thread',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of frames to show per thread (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_analyze_hang',
+          description: 'Collect all thread stacks, group identical ones, find threads blocked on locks and report lock cycles',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of frames to collect per thread (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_print',
+          description: 'Print value of expression',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              expression: {
+                type: 'string',
+                description: 'Expression to evaluate'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread to use instead of the selected thread (optional)'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame to use instead of the selected frame (optional)'
+              }
+            },
+            required: ['sessionId', 'expression']
+          }
+        },
+        {
+          name: 'gdb_list_locals',
+          description: 'List arguments and local variables of the selected frame',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_var_create',
+          description: 'Create a variable object for an expression, to explore large values incrementally',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              expression: {
+                type: 'string',
+                description: 'Expression to track'
+              },
+              floating: {
+                type: 'boolean',
+                description: 'Re-evaluate the expression in whatever frame is selected, instead of the frame it was created in (optional, default is false)'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread to create it in instead of the selected thread (optional)'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame to create it in instead of the selected frame (optional)'
+              }
+            },
+            required: ['sessionId', 'expression']
+          }
+        },
+        {
+          name: 'gdb_var_list_children',
+          description: 'List a page of the children of a variable object',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              name: {
+                type: 'string',
+                description: 'Variable object name'
+              },
+              offset: {
+                type: 'number',
+                description: 'Index of the first child to list (optional, default is 0)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of children to list (optional, default is 100)'
+              }
+            },
+            required: ['sessionId', 'name']
+          }
+        },
+        {
+          name: 'gdb_var_evaluate',
+          description: 'Get the current value of a variable object',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              name: {
+                type: 'string',
+                description: 'Variable object name'
+              },
+              format: {
+                type: 'string',
+                enum: VAROBJ_FORMATS,
+                description: 'Format of the value for this call only (optional)'
+              }
+            },
+            required: ['sessionId', 'name']
+          }
+        },
+        {
+          name: 'gdb_var_set_format',
+          description: 'Change the display format of a variable object and its children',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              name: {
+                type: 'string',
+                description: 'Variable object name'
+              },
+              format: {
+                type: 'string',
+                enum: VAROBJ_FORMATS,
+                description: 'New display format'
+              }
+            },
+            required: ['sessionId', 'name', 'format']
+          }
+        },
+        {
+          name: 'gdb_var_update',
+          description: 'Report variable objects whose value, type or scope changed since the last update',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              name: {
+                type: 'string',
+                description: 'Variable object to update (optional, default is every variable object)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_var_delete',
+          description: 'Delete a variable object and its children',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              name: {
+                type: 'string',
+                description: 'Variable object name'
+              }
+            },
+            required: ['sessionId', 'name']
+          }
+        },
+        {
+          name: 'gdb_read_memory',
+          description: 'Read raw bytes of memory',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              address: {
+                type: 'string',
+                description: 'Start address or expression, e.g. "0x601040" or "&buffer"'
+              },
+              length: {
+                type: 'number',
+                description: `Number of bytes to read (at most ${MAX_MEMORY_READ})`
+              },
+              encoding: {
+                type: 'string',
+                enum: ['hex', 'base64'],
+                description: 'Encoding of the bytes in the result (optional, default is "hex")'
+              }
+            },
+            required: ['sessionId', 'address', 'length']
+          }
+        },
+        {
+          name: 'gdb_write_memory',
+          description: 'Write raw bytes to memory',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              address: {
+                type: 'string',
+                description: 'Start address or expression'
+              },
+              hex: {
+                type: 'string',
+                description: 'Bytes to write as hex, e.g. "90 90" or "9090" (give either hex or base64)'
+              },
+              base64: {
+                type: 'string',
+                description: 'Bytes to write as base64 (give either hex or base64)'
+              }
+            },
+            required: ['sessionId', 'address']
+          }
+        },
+        {
+          name: 'gdb_find_memory',
+          description: 'Search a memory range for a byte sequence or string',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              address: {
+                type: 'string',
+                description: 'Start of the range to search'
+              },
+              length: {
+                type: 'number',
+                description: `Number of bytes to search (at most ${MAX_MEMORY_SEARCH})`
+              },
+              pattern: {
+                type: 'string',
+                description: 'String to look for, or bytes in hex when patternType is "hex"'
+              },
+              patternType: {
+                type: 'string',
+                enum: ['string', 'hex'],
+                description: 'How to read the pattern (optional, default is "string")'
+              },
+              maxMatches: {
+                type: 'number',
+                description: `Maximum number of matches to report (optional, default is ${DEFAULT_FIND_MATCHES})`
+              }
+            },
+            required: ['sessionId', 'address', 'length', 'pattern']
+          }
+        },
+        {
+          name: 'gdb_dump_memory',
+          description: 'Write a memory region to a local file',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              address: {
+                type: 'string',
+                description: 'Start address or expression'
+              },
+              length: {
+                type: 'number',
+                description: `Number of bytes to dump (at most ${MAX_MEMORY_DUMP})`
+              },
+              localPath: {
+                type: 'string',
+                description: 'File to write, relative to the session working directory'
+              }
+            },
+            required: ['sessionId', 'address', 'length', 'localPath']
+          }
+        },
+        {
+          name: 'gdb_memory_map',
+          description: 'List the memory regions of the target with their permissions, offsets and backing files',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_shared_libraries',
+          description: 'List the shared libraries of the target with their address ranges, mappings and whether symbols are loaded',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_address_info',
+          description: 'Find the symbol, section, mapping and library an address belongs to',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              address: {
+                type: 'string',
+                description: 'Address or expression, e.g. "0x7ffff7e4a2b0" or "$pc"'
+              }
+            },
+            required: ['sessionId', 'address']
+          }
+        },
+        {
+          name: 'gdb_disassemble',
+          description: 'Disassemble a function, an address range or the code around $pc into structured instructions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              function: {
+                type: 'string',
+                description: 'Function (or any address inside it) to disassemble completely (optional)'
+              },
+              startAddress: {
+                type: 'string',
+                description: 'Start of an address range, e.g. "0x401000" or "&buffer" (optional, requires endAddress)'
+              },
+              endAddress: {
+                type: 'string',
+                description: 'End of the address range, exclusive (optional)'
+              },
+              around: {
+                type: 'number',
+                description: 'Number of instructions to show on each side of $pc; used when no function or range is given (optional, default is ${DEFAULT_DISASSEMBLY_CONTEXT})'
+              },
+              source: {
+                type: 'boolean',
+                description: 'Interleave source lines with the instructions (optional, default is false)'
+              },
+              opcodes: {
+                type: 'boolean',
+                description: 'Include the raw opcode bytes (optional, default is true)'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread whose $pc to use instead of the selected thread (optional)'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame whose $pc to use instead of the selected frame (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_examine',
+          description: 'Examine memory',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              expression: {
+                type: 'string',
+                description: 'Memory address or expression'
+              },
+              format: {
+                type: 'string',
+                description: 'Display format (e.g., "x" for hex, "i" for instruction)'
+              },
+              count: {
+                type: 'number',
+                description: 'Number of units to display'
+              }
+            },
+            required: ['sessionId', 'expression']
+          }
+        },
+        {
+          name: 'gdb_info_registers',
+          description: 'Display registers',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              register: {
+                type: 'string',
+                description: 'Specific register to display (optional)'
+              },
+              threadId: {
+                type: 'number',
+                description: 'Thread to use instead of the selected thread (optional)'
+              },
+              frameLevel: {
+                type: 'number',
+                description: 'Frame to use instead of the selected frame (optional)'
+              }
+            },
+            required: ['sessionId']
+          }
+        },
+        {
+          name: 'gdb_list_source',
+          description: 'List source code at current location or specified location, with VS Code integration',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'GDB session ID'
+              },
+              location: {
+                type: 'string',
+                description: 'Source location (e.g., function name, file:line, optional)'
+              },
+              lineCount: {
+                type: 'number',
+                description: 'Number of lines to show (optional, default is 10)'
+              }
+            },
+            required: ['sessionId']
+          }
+        }
+      ]),
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      // Calls on the same session run one at a time, in arrival order
+      const sessionId = request.params.arguments?.sessionId;
+      const session = typeof sessionId === 'string' ? activeSessions.get(sessionId) : undefined;
+      if (!session || UNQUEUED_TOOLS.has(request.params.name)) {
+        return await this.callTool(request);
+      }
+      
+      try {
+        return await this.runQueued(session, request.params.name, extra.signal, () => this.callTool(request));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Failed to run ${request.params.name}: ${errorMessage}`
+            }
+          ],
+          isError: true
+        };
+      }
+    });
+  }
+
+  /**
+   * Route a tool call to the appropriate handler based on the tool name
+   */
+  private async callTool(request: CallToolRequest) {
+    switch (request.params.name) {
+      case 'gdb_start':
+        return await this.handleGdbStart(request.params.arguments);
+      case 'gdb_load':
+        return await this.handleGdbLoad(request.params.arguments);
+      case 'gdb_command':
+        return await this.handleGdbCommand(request.params.arguments);
+      case 'gdb_terminate':
+        return await this.handleGdbTerminate(request.params.arguments);
+      case 'gdb_list_sessions':
+        return await this.handleGdbListSessions();
+      case 'gdb_session_status':
+        return await this.handleGdbSessionStatus(request.params.arguments);
+      case 'gdb_attach':
+        return await this.handleGdbAttach(request.params.arguments);
+      case 'gdb_connect_remote':
+        return await this.handleGdbConnectRemote(request.params.arguments);
+      case 'gdb_disconnect':
+        return await this.handleGdbDisconnect(request.params.arguments);
+      case 'gdb_launch_gdbserver':
+        return await this.handleGdbLaunchGdbserver(request.params.arguments);
+      case 'gdb_stop_gdbserver':
+        return await this.handleGdbStopGdbserver(request.params.arguments);
+      case 'gdb_remote_upload':
+        return await this.handleGdbRemoteUpload(request.params.arguments);
+      case 'gdb_remote_download':
+        return await this.handleGdbRemoteDownload(request.params.arguments);
+      case 'gdb_load_core':
+        return await this.handleGdbLoadCore(request.params.arguments);
+      case 'gdb_crash_report':
+        return await this.handleGdbCrashReport(request.params.arguments);
+      case 'gdb_analyze_cores':
+        return await this.handleGdbAnalyzeCores(request.params.arguments);
+      case 'gdb_read_program_output':
+        return await this.handleGdbReadProgramOutput(request.params.arguments);
+      case 'gdb_write_program_input':
+        return await this.handleGdbWriteProgramInput(request.params.arguments);
+      case 'gdb_set_breakpoint':
+        return await this.handleGdbSetBreakpoint(request.params.arguments);
+      case 'gdb_run':
+        return await this.handleGdbRun(request.params.arguments);
+      case 'gdb_start_program':
+        return await this.handleGdbStartProgram(request.params.arguments);
+      case 'gdb_set_watchpoint':
+        return await this.handleGdbSetWatchpoint(request.params.arguments);
+      case 'gdb_set_catchpoint':
+        return await this.handleGdbSetCatchpoint(request.params.arguments);
+      case 'gdb_set_logpoint':
+        return await this.handleGdbSetLogpoint(request.params.arguments);
+      case 'gdb_get_logpoint_hits':
+        return await this.handleGdbGetLogpointHits(request.params.arguments);
+      case 'gdb_add_watch_expression':
+        return await this.handleGdbAddWatchExpression(request.params.arguments);
+      case 'gdb_remove_watch_expression':
+        return await this.handleGdbRemoveWatchExpression(request.params.arguments);
+      case 'gdb_list_watch_expressions':
+        return await this.handleGdbListWatchExpressions(request.params.arguments);
+      case 'gdb_list_breakpoints':
+        return await this.handleGdbListBreakpoints(request.params.arguments);
+      case 'gdb_delete_breakpoint':
+        return await this.handleGdbDeleteBreakpoint(request.params.arguments);
+      case 'gdb_enable_breakpoint':
+        return await this.handleGdbEnableBreakpoint(request.params.arguments);
+      case 'gdb_disable_breakpoint':
+        return await this.handleGdbDisableBreakpoint(request.params.arguments);
+      case 'gdb_modify_breakpoint':
+        return await this.handleGdbModifyBreakpoint(request.params.arguments);
+      case 'gdb_continue':
+        return await this.handleGdbContinue(request.params.arguments);
+      case 'gdb_interrupt':
+        return await this.handleGdbInterrupt(request.params.arguments);
+      case 'gdb_wait_for_stop':
+        return await this.handleGdbWaitForStop(request.params.arguments);
+      case 'gdb_step':
+        return await this.handleGdbStep(request.params.arguments);
+      case 'gdb_next':
+        return await this.handleGdbNext(request.params.arguments);
+      case 'gdb_until':
+        return await this.handleGdbUntil(request.params.arguments);
+      case 'gdb_advance':
+        return await this.handleGdbAdvance(request.params.arguments);
+      case 'gdb_step_until_condition':
+        return await this.handleGdbStepUntilCondition(request.params.arguments);
+      case 'gdb_finish':
+        return await this.handleGdbFinish(request.params.arguments);
+      case 'gdb_record_start':
+        return await this.handleGdbRecordStart(request.params.arguments);
+      case 'gdb_record_stop':
+        return await this.handleGdbRecordStop(request.params.arguments);
+      case 'gdb_record_status':
+        return await this.handleGdbRecordStatus(request.params.arguments);
+      case 'gdb_backtrace':
+        return await this.handleGdbBacktrace(request.params.arguments);
+      case 'gdb_list_threads':
+        return await this.handleGdbListThreads(request.params.arguments);
+      case 'gdb_select_thread':
+        return await this.handleGdbSelectThread(request.params.arguments);
+      case 'gdb_select_frame':
+        return await this.handleGdbSelectFrame(request.params.arguments);
+      case 'gdb_thread_apply_backtrace':
+        return await this.handleGdbThreadApplyBacktrace(request.params.arguments);
+      case 'gdb_analyze_hang':
+        return await this.handleGdbAnalyzeHang(request.params.arguments);
+      case 'gdb_print':
+        return await this.handleGdbPrint(request.params.arguments);
+      case 'gdb_list_locals':
+        return await this.handleGdbListLocals(request.params.arguments);
+      case 'gdb_var_create':
+        return await this.handleGdbVarCreate(request.params.arguments);
+      case 'gdb_var_list_children':
+        return await this.handleGdbVarListChildren(request.params.arguments);
+      case 'gdb_var_evaluate':
+        return await this.handleGdbVarEvaluate(request.params.arguments);
+      case 'gdb_var_set_format':
+        return await this.handleGdbVarSetFormat(request.params.arguments);
+      case 'gdb_var_update':
+        return await this.handleGdbVarUpdate(request.params.arguments);
+      case 'gdb_var_delete':
+        return await this.handleGdbVarDelete(request.params.arguments);
+      case 'gdb_read_memory':
+        return await this.handleGdbReadMemory(request.params.arguments);
+      case 'gdb_write_memory':
+        return await this.handleGdbWriteMemory(request.params.arguments);
+      case 'gdb_find_memory':
+        return await this.handleGdbFindMemory(request.params.arguments);
+      case 'gdb_dump_memory':
+        return await this.handleGdbDumpMemory(request.params.arguments);
+      case 'gdb_memory_map':
+        return await this.handleGdbMemoryMap(request.params.arguments);
+      case 'gdb_shared_libraries':
+        return await this.handleGdbSharedLibraries(request.params.arguments);
+      case 'gdb_address_info':
+        return await this.handleGdbAddressInfo(request.params.arguments);
+      case 'gdb_disassemble':
+        return await this.handleGdbDisassemble(request.params.arguments);
+      case 'gdb_examine':
+        return await this.handleGdbExamine(request.params.arguments);
+      case 'gdb_info_registers':
+        return await this.handleGdbInfoRegisters(request.params.arguments);
+      case 'gdb_list_source':
+        return await this.handleGdbListSource(request.params.arguments);
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+    }
+  }
+
+  /**
+   * Add the per-call `timeoutMs` option to every tool that runs GDB commands
+   */
+  private withTimeoutOption(tools: any[]) {
+    return tools.map((tool) => {
+      const properties = tool.inputSchema.properties;
+      if (!properties.sessionId || properties.timeoutMs || SERVER_STATE_TOOLS.has(tool.name)) {
+        return tool;
+      }
+      return {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: {
+            ...properties,
+            timeoutMs: {
+              type: 'number',
+              description: 'Timeout in milliseconds for this call (optional, defaults to the session timeout)'
+            }
+          }
+        }
+      };
+    });
+  }
+
+  private async handleGdbStart(args: any) {
+    try {
+      const { session, output } = await this.startGdbSession({
+        gdbPath: args.gdbPath,
+        workingDir: args.workingDir,
+        defaultTimeoutMs: args.timeoutMs,
+        captureProgramOutput: args.captureProgramOutput
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `GDB session started with ID: ${session.id}\n\nOutput:\n${output}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to start GDB: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbLoad(args: any) {
+    const { sessionId, program, arguments: programArgs = [], timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      // Normalize path if working directory is set
+      const normalizedPath = session.workingDir && !path.isAbsolute(program) 
+        ? path.resolve(session.workingDir, program)
+        : program;
+      
+      // Update session target
+      session.target = normalizedPath;
+      
+      // Execute file command to load program
+      const loadCommand = `file "${normalizedPath}"`;
+      const loadOutput = await this.executeGdbCommand(session, loadCommand, timeoutMs);
+      
+      // Set program arguments if provided
+      let argsOutput = '';
+      if (programArgs.length > 0) {
+        argsOutput = await this.setProgramArguments(session, programArgs, timeoutMs);
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Program loaded: ${normalizedPath}\n\nOutput:\n${loadOutput}${argsOutput ? '\n' + argsOutput : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to load program: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbCommand(args: any) {
+    const { sessionId, command, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const stopCount = session.stopEventCount;
+      const output = await this.executeGdbCommand(session, command, timeoutMs);
+      
+      // CLI commands such as "next" or "finish" can stop the program too
+      const watches = session.stopEventCount !== stopCount
+        ? await this.collectWatchExpressions(session, timeoutMs)
+        : { values: [], text: '' };
+      if (watches.values.length > 0) {
+        return this.structuredResult(`Command: ${command}\n\nOutput:\n${output}${watches.text}`, { output, watchExpressions: watches.values });
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Command: ${command}\n\nOutput:\n${output}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to execute command: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbTerminate(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    try {
+      await this.terminateGdbSession(sessionId, timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `GDB session terminated: ${sessionId}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to terminate GDB session: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbListSessions() {
+    const sessions = Array.from(activeSessions.entries()).map(([id, session]) => ({
+      id,
+      target: session.target || 'No program loaded',
+      workingDir: session.workingDir || process.cwd(),
+      state: session.state,
+      activeCall: session.activeCall,
+      queueDepth: session.callQueue.length
+    }));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Active GDB Sessions (${sessions.length}):\n\n${JSON.stringify(sessions, null, 2)}`
+        }
+      ]
+    };
+  }
+
+  private async handleGdbSessionStatus(args: any) {
+    const { sessionId, limit = 10 } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    const status = {
+      id: session.id,
+      target: session.target || 'No program loaded',
+      remote: session.remote,
+      gdbserver: session.gdbserver
+        ? {
+            address: session.gdbserver.address,
+            pid: session.gdbserver.process.pid,
+            program: session.gdbserver.program,
+            attachedPid: session.gdbserver.attachedPid,
+            keepAlive: session.gdbserver.keepAlive,
+            messages: limit > 0 ? session.gdbserver.messages.slice(-limit) : []
+          }
+        : undefined,
+      state: session.state,
+      lastStop: session.lastStop,
+      totalStopEvents: session.stopEventCount,
+      stopEvents: limit > 0 ? session.stopEvents.slice(-limit) : []
+    };
+    
+    let summary = `Session ${session.id}: ${session.state}`;
+    if (session.remote) {
+      summary += `\nConnected to ${session.remote.extended ? 'extended-remote' : 'remote'} target ${session.remote.address}`;
+    }
+    if (session.lastStop) {
+      summary += `\nLast stop: ${describeStopEvent(session.lastStop)}`;
+    }
+    return this.structuredResult(summary, status);
+  }
+
+  private async handleGdbAttach(args: any) {
+    const { sessionId, pid, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const output = await this.executeGdbCommand(session, `attach ${pid}`, timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Attached to process ${pid}\n\nOutput:\n${output}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to attach to process: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbConnectRemote(args: any) {
+    const { sessionId, address, extended = false, program, remoteProgram, sysroot, solibSearchPath, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const output = await this.connectRemote(session, { address, extended, program, remoteProgram, sysroot, solibSearchPath }, timeoutMs);
+      
+      const stop = session.lastStop;
+      return this.structuredResult(
+        `Connected to ${extended ? 'extended-remote' : 'remote'} target ${address}${stop ? `\n\n${describeStopEvent(stop)}` : ''}\n\nOutput:\n${output}`,
+        { remote: session.remote, state: session.state, stop }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to connect to remote target: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbDisconnect(args: any) {
+    const { sessionId, kill = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!session.remote) {
+        throw new Error('Not connected to a remote target');
+      }
+      
+      const { address } = session.remote;
+      const output = await this.disconnectRemote(session, kill ? 'kill' : 'detach', timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Disconnected from ${address}${kill ? ' and killed the program' : ''}${output.trim() ? `\n\nOutput:\n${output}` : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to disconnect: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbLaunchGdbserver(args: any) {
+    const { sessionId, program, arguments: programArgs = [], pid, gdbserverPath = 'gdbserver', host = 'localhost', multi = false, sysroot, connect = true, keepAlive = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (session.gdbserver) {
+        throw new Error(`gdbserver is already running for this session on ${session.gdbserver.address}`);
+      }
+      if (program && pid !== undefined) {
+        throw new Error('Give either program or pid, not both');
+      }
+      if (!program && pid === undefined && !multi) {
+        throw new Error('Give a program or a pid, or set multi to start gdbserver without one');
+      }
+      
+      const programPath = program && session.workingDir && !path.isAbsolute(program)
+        ? path.resolve(session.workingDir, program)
+        : program;
+      const target = pid !== undefined
+        ? ['--attach', String(pid)]
+        : [...(multi ? ['--multi'] : []), ...(programPath ? [programPath, ...programArgs] : [])];
+      const port = await findFreePort(host);
+      const address = `${host}:${port}`;
+      const child = await spawnGdbserver(gdbserverPath, address, target, session.workingDir, timeoutMs ?? session.defaultTimeoutMs);
+      
+      const gdbserver: ManagedGdbserver = {
+        process: child,
+        address,
+        port,
+        program: programPath,
+        attachedPid: pid,
+        keepAlive,
+        io: session.programIo,
+        messages: []
+      };
+      session.gdbserver = gdbserver;
+      // A program started by gdbserver inherits its stdout and stderr, and
+      // shares the latter with gdbserver's own messages
+      const stderr = createGdbserverStderrSplitter(
+        (text) => gdbserver.io?.stderrBuffer.append(text),
+        (message) => {
+          gdbserver.messages.push(message);
+          if (gdbserver.messages.length > MAX_GDBSERVER_MESSAGES) {
+            gdbserver.messages.shift();
+          }
+        }
+      );
+      child.stdout!.on('data', (data: Buffer) => gdbserver.io?.stdoutBuffer.append(data.toString()));
+      child.stderr!.on('data', (data: Buffer) => stderr.write(data.toString()));
+      child.on('exit', () => {
+        stderr.flush();
+        for (const holder of activeSessions.values()) {
+          if (holder.gdbserver === gdbserver) {
+            holder.gdbserver = undefined;
+          }
+        }
+        if (keptGdbservers.get(address) === gdbserver) {
+          keptGdbservers.delete(address);
+        }
+      });
+      
+      let output = '';
+      if (connect) {
+        try {
+          output = await this.connectRemote(session, { address, extended: multi, program: programPath, sysroot }, timeoutMs);
+        } catch (error) {
+          child.kill();
+          throw error;
+        }
+      }
+      
+      const stop = session.lastStop;
+      return this.structuredResult(
+        `gdbserver listening on ${address}${pid !== undefined ? ` (attached to process ${pid})` : programPath ? ` for ${programPath}` : ''}${connect ? `\n\nConnected${stop ? `: ${describeStopEvent(stop)}` : ''}` : ''}${output ? `\n\nOutput:\n${output}` : ''}`,
+        { address, port, gdbserverPid: child.pid, keepAlive, remote: session.remote, state: session.state }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to launch gdbserver: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbStopGdbserver(args: any) {
+    const { sessionId, kill, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!session.gdbserver) {
+        throw new Error('No gdbserver was started for this session');
+      }
+      
+      const { address } = session.gdbserver;
+      await this.stopGdbserver(session, kill, timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Stopped gdbserver on ${address}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to stop gdbserver: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRemoteUpload(args: any) {
+    const { sessionId, localPath, remotePath, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!session.remote) {
+        throw new Error('Not connected to a remote target');
+      }
+      
+      const local = session.workingDir ? path.resolve(session.workingDir, localPath) : localPath;
+      await this.executeMiCommand(session, `-target-file-put ${miArgument(local)} ${miArgument(remotePath)}`, timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Uploaded ${local} to ${remotePath} on ${session.remote.address}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to upload file: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRemoteDownload(args: any) {
+    const { sessionId, remotePath, localPath, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!session.remote) {
+        throw new Error('Not connected to a remote target');
+      }
+      
+      const local = session.workingDir ? path.resolve(session.workingDir, localPath) : localPath;
+      await this.executeMiCommand(session, `-target-file-get ${miArgument(remotePath)} ${miArgument(local)}`, timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Downloaded ${remotePath} from ${session.remote.address} to ${local}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to download file: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbLoadCore(args: any) {
+    const { sessionId, program, corePath, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const { fileOutput, coreOutput } = await this.loadCoreFile(session, program, corePath, timeoutMs);
+      
+      // Get backtrace to show initial state
+      const backtraceOutput = await this.executeGdbCommand(session, "backtrace", timeoutMs);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Core file loaded: ${corePath}\n\nOutput:\n${fileOutput}\n${coreOutput}\n\nBacktrace:\n${backtraceOutput}\n\nUse gdb_crash_report for a full triage report.`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to load core file: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbCrashReport(args: any) {
+    const { sessionId, program, corePath, frameLimit = 32, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      let coreOutput: string | undefined;
+      if (corePath) {
+        if (!program) {
+          throw new Error('program is required when corePath is given');
+        }
+        ({ coreOutput } = await this.loadCoreFile(session, program, corePath, timeoutMs));
+      } else if (session.state === 'running') {
+        throw new Error('The program is running; stop it with gdb_interrupt first');
+      }
+      
+      const report = await this.buildCrashReport(session, coreOutput, frameLimit, timeoutMs);
+      return this.structuredResult(`Crash report${corePath ? ` for ${corePath}` : ''}\n\n${describeCrashReport(report)}`, { report });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to build crash report: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbAnalyzeCores(args: any) {
+    const {
+      program,
+      cores,
+      gdbPath,
+      parallelism = DEFAULT_CORE_PARALLELISM,
+      signatureDepth = SIGNATURE_DEPTH,
+      frameLimit = 32,
+      timeoutMs
+    } = args;
+    
+    try {
+      const corePaths = resolveCoreFiles(cores);
+      if (corePaths.length === 0) {
+        throw new Error(`No core files found for ${cores}`);
+      }
+      
+      const analyses: CoreAnalysis[] = [];
+      const failures: { corePath: string; error: string }[] = [];
+      const remaining = [...corePaths];
+      
+      // Each worker runs its own GDB session, one core at a time
+      const analyzeNext = async () => {
+        for (let corePath = remaining.shift(); corePath !== undefined; corePath = remaining.shift()) {
+          let session: GdbSession | undefined;
+          try {
+            ({ session } = await this.startGdbSession({ gdbPath, defaultTimeoutMs: timeoutMs, captureProgramOutput: false }));
+            const { coreOutput } = await this.loadCoreFile(session, program, corePath);
+            const threadId = await this.getCurrentThreadId(session);
+            const frames = await this.listStackFrames(session, threadId, { limit: frameLimit });
+            const signature = stackSignature(frames, signatureDepth);
+            analyses.push({
+              corePath,
+              signal: parseCoreSignal(coreOutput),
+              stackHash: signature.hash,
+              signatureFrames: signature.frames,
+              frames
+            });
+          } catch (error) {
+            failures.push({ corePath, error: error instanceof Error ? error.message : String(error) });
+          } finally {
+            if (session) {
+              await this.terminateGdbSession(session.id).catch(() => undefined);
+            }
+          }
+        }
+      };
+      const workers = Math.max(1, Math.min(Math.floor(parallelism), corePaths.length));
+      await Promise.all(Array.from({ length: workers }, analyzeNext));
+      
+      // Workers finish in any order; keep buckets and representatives stable
+      analyses.sort((a, b) => a.corePath.localeCompare(b.corePath));
+      failures.sort((a, b) => a.corePath.localeCompare(b.corePath));
+      const buckets = bucketCrashes(analyses);
+      
+      const lines = [
+        `Analyzed ${analyses.length} of ${corePaths.length} core${corePaths.length === 1 ? '' : 's'} into ${buckets.length} bucket${buckets.length === 1 ? '' : 's'}`
+      ];
+      for (const bucket of buckets) {
+        lines.push(
+          '',
+          `${bucket.stackHash}: ${bucket.count} core${bucket.count === 1 ? '' : 's'}${bucket.signals.length > 0 ? ` (${bucket.signals.join(', ')})` : ''}`,
+          `  Signature: ${bucket.signatureFrames.join(' < ')}`,
+          `  Representative: ${bucket.representative.corePath}`
+        );
+      }
+      if (failures.length > 0) {
+        lines.push('', 'Failed:');
+        lines.push(...failures.map((failure) => `  ${failure.corePath}: ${failure.error}`));
+      }
+      
+      return this.structuredResult(lines.join('\n'), { program, coreCount: corePaths.length, buckets, failures });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to analyze cores: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbReadProgramOutput(args: any) {
+    const { sessionId, stdoutOffset, stderrOffset, maxLength = 65536 } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    const io = session.programIo;
+    
+    if (!io) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Program output is not captured in this session (start it with captureProgramOutput enabled)'
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const stdout = io.stdoutBuffer.read(stdoutOffset ?? io.stdoutCursor, maxLength);
+    const stderr = io.stderrBuffer.read(stderrOffset ?? io.stderrCursor, maxLength);
+    io.stdoutCursor = stdout.nextOffset;
+    io.stderrCursor = stderr.nextOffset;
+    
+    let summary = '';
+    if (stdout.text) {
+      summary += `stdout:\n${stdout.text}${stdout.text.endsWith('\n') ? '' : '\n'}`;
+    }
+    if (stderr.text) {
+      summary += `${summary ? '\n' : ''}stderr:\n${stderr.text}${stderr.text.endsWith('\n') ? '' : '\n'}`;
+    }
+    if (stdout.truncated || stderr.truncated) {
+      summary += '\n(older output was discarded before it could be read)';
+    }
+    
+    return this.structuredResult(summary || 'No new program output.', {
+      stdout: { ...stdout, endOffset: io.stdoutBuffer.endOffset },
+      stderr: { ...stderr, endOffset: io.stderrBuffer.endOffset }
+    });
+  }
+
+  private async handleGdbWriteProgramInput(args: any) {
+    const { sessionId, data = '', newline = false, eof = false } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    const io = session.programIo;
+    
+    try {
+      if (!io) {
+        throw new Error('Program input is not captured in this session (start it with captureProgramOutput enabled)');
+      }
+      if (!session.programIoRedirected) {
+        throw new Error('The streams of the current run are not redirected (remote target or startup-with-shell off); program input goes to GDB\'s terminal');
+      }
+      // A pipe drops buffered data once nobody has it open, so EOF can only
+      // be sent while the program holds the read end
+      if (eof && session.state !== 'running' && session.state !== 'stopped') {
+        throw new Error('Cannot close stdin before the program is running');
+      }
+      
+      const text = newline ? `${data}\n` : data;
+      await writeProgramInput(io, text);
+      if (eof) {
+        closeProgramInput(io);
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Wrote ${Buffer.byteLength(text)} bytes to program stdin${eof ? ' and closed it' : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to write program input: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSetBreakpoint(args: any) {
+    const { sessionId, location, condition, ignoreCount, thread, temporary = false, hardware = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const breakpoint = await this.insertBreakpoint(session, location, { condition, ignoreCount, thread, temporary, hardware }, timeoutMs);
+      
+      return this.structuredResult(`Breakpoint set: ${describeBreakpoint(breakpoint)}`, { breakpoint });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to set breakpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSetWatchpoint(args: any) {
+    const { sessionId, expression, access = 'write', condition, scope = 'expression', timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!(access in WATCHPOINT_ACCESS_FLAGS)) {
+        throw new Error(`Invalid access value: ${access} (expected "write", "read" or "access")`);
+      }
+      if (scope !== 'expression' && scope !== 'location') {
+        throw new Error(`Invalid scope value: ${scope} (expected "expression" or "location")`);
+      }
+      
+      // Watching the location means watching the memory the expression
+      // refers to now, which outlives the frame the expression belongs to.
+      // GDB prints the address with its type and symbol, e.g.
+      // "(int *) 0x404028 <counter>", so only the address is kept.
+      let watched = expression;
+      if (scope === 'location') {
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${miArgument(`&(${expression})`)}`, timeoutMs);
+        const [address] = parsePointer(miString(result.record.results, 'value') ?? '');
+        if (!address) {
+          throw new Error(`Could not determine the address of ${expression}`);
+        }
+        watched = `*(__typeof__(${expression}) *) ${address}`;
+      }
+      
+      const result = await this.executeMiCommand(session, `-break-watch${WATCHPOINT_ACCESS_FLAGS[access]} ${miArgument(watched)}`, timeoutMs);
+      const wpt = Object.values(result.record.results)[0];
+      const number = typeof wpt === 'object' && !Array.isArray(wpt) ? miString(wpt, 'number') : undefined;
+      if (!number) {
+        throw new Error('GDB did not report the new watchpoint');
+      }
+      if (condition) {
+        await this.executeMiCommand(session, `-break-condition ${number} ${miArgument(condition)}`, timeoutMs);
+      }
+      
+      const watchpoint = (await this.listBreakpoints(session, timeoutMs)).find((candidate) => candidate.number === number);
+      return this.structuredResult(
+        `Watchpoint set: ${watchpoint ? describeBreakpoint(watchpoint) : number} on ${watched}`,
+        { watchpoint: watchpoint ?? { number, expression: watched } }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to set watchpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSetCatchpoint(args: any) {
+    const { sessionId, event, filter = [], condition, temporary = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const filters: string[] = (Array.isArray(filter) ? filter : [filter]).map(String);
+      if (filters.some((entry) => /[\r\n]/.test(entry))) {
+        throw new Error('Catchpoint filters cannot contain line breaks');
+      }
+      
+      let command: string;
+      switch (event) {
+        case 'throw':
+        case 'catch':
+        case 'rethrow':
+          command = `-catch-${event}${temporary ? ' -t' : ''}${filters.length > 0 ? ` -r ${miArgument(filters.join('|'))}` : ''}`;
+          break;
+        case 'load':
+        case 'unload':
+          command = `-catch-${event}${temporary ? ' -t' : ''} ${miArgument(filters.length > 0 ? filters.join('|') : '.*')}`;
+          break;
+        case 'syscall':
+        case 'signal':
+        case 'fork':
+        case 'vfork':
+        case 'exec':
+          // No MI equivalent; the CLI form reports the new catchpoint only
+          // through a =breakpoint-created notification
+          command = `${temporary ? 'tcatch' : 'catch'} ${event}${filters.length > 0 && (event === 'syscall' || event === 'signal') ? ` ${filters.join(' ')}` : ''}`;
+          break;
+        default:
+          throw new Error(`Invalid catchpoint event: ${event}`);
+      }
+      
+      const before = new Set((await this.listBreakpoints(session, timeoutMs)).map((breakpoint) => breakpoint.number));
+      await this.executeMiCommand(session, command, timeoutMs);
+      let catchpoint = (await this.listBreakpoints(session, timeoutMs)).find((breakpoint) => !before.has(breakpoint.number));
+      if (!catchpoint) {
+        throw new Error('GDB did not report the new catchpoint');
+      }
+      
+      if (condition) {
+        await this.executeMiCommand(session, `-break-condition ${catchpoint.number} ${miArgument(condition)}`, timeoutMs);
+        catchpoint = { ...catchpoint, condition };
+      }
+      
+      return this.structuredResult(`Catchpoint set: ${describeBreakpoint(catchpoint)}`, { catchpoint });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to set catchpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSetLogpoint(args: any) {
+    const { sessionId, location, expressions = [], condition, mode = 'breakpoint', formats = [], timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!Array.isArray(expressions) || expressions.length === 0) {
+        throw new Error('At least one expression is required');
+      }
+      
+      let logpoint: Logpoint;
+      if (mode === 'breakpoint') {
+        const breakpoint = await this.insertBreakpoint(session, location, { condition }, timeoutMs);
+        logpoint = { key: breakpoint.number, number: breakpoint.number, mode, location, expressions, hits: [], totalHits: 0 };
+      } else if (mode === 'dprintf') {
+        // Delimit the values with control characters so they can be split
+        // back apart from the console stream
+        const id = session.nextLogpointId++;
+        const conversions = expressions.map((_: string, index: number) => formats[index] || '%d');
+        // printf formats have no octal escapes, so the delimiters are raw
+        const format = `\x1fmcp-logpoint ${id} %d\x1e${conversions.join('\x1e')}\x1f\\n`;
+        let command = '-dprintf-insert -f';
+        if (condition) {
+          command += ` -c ${miArgument(condition)}`;
+        }
+        command += ` ${miArgument(location)} ${quoteMiString(format)} $_thread ${expressions.map(miArgument).join(' ')}`;
+        const result = await this.executeMiCommand(session, command, timeoutMs);
+        const breakpoint = toBreakpoint(result.record.results.bkpt);
+        logpoint = { key: `d${id}`, number: breakpoint.number, mode, location, expressions, hits: [], totalHits: 0 };
+      } else {
+        throw new Error(`Invalid mode: ${mode} (expected "breakpoint" or "dprintf")`);
+      }
+      session.logpoints.set(logpoint.key, logpoint);
+      
+      return this.structuredResult(
+        `Logpoint ${logpoint.number} set at ${location}, recording: ${expressions.join(', ')}`,
+        { number: logpoint.number, mode, location, expressions }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to set logpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbGetLogpointHits(args: any) {
+    const { sessionId, number, fromIndex = 0, limit = 100, clear = false } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    const logpoints = Array.from(session.logpoints.values())
+      .filter((logpoint) => number === undefined || logpoint.number === String(number));
+    if (number !== undefined && logpoints.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No logpoint with number: ${number}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const tables = logpoints.map((logpoint) => {
+      const hits = logpoint.hits.filter((hit) => hit.index >= fromIndex).slice(0, limit);
+      if (clear) {
+        const returned = new Set(hits);
+        logpoint.hits = logpoint.hits.filter((hit) => !returned.has(hit));
+      }
+      return {
+        number: logpoint.number,
+        location: logpoint.location,
+        expressions: logpoint.expressions,
+        totalHits: logpoint.totalHits,
+        hits
+      };
+    });
+    
+    const summary = tables.length > 0
+      ? tables.map((table) => {
+        const rows = table.hits.map((hit) => `  #${hit.index} [thread ${hit.threadId ?? '?'}] ${hit.timestamp} ${table.expressions.map((expression) => `${expression}=${hit.errors?.[expression] !== undefined ? '<error>' : hit.values[expression]}`).join(' ')}`);
+        return `Logpoint ${table.number} at ${table.location} (${table.totalHits} hits):${rows.length > 0 ? '\n' + rows.join('\n') : ' no hits returned'}`;
+      }).join('\n\n')
+      : 'No logpoints.';
+    return this.structuredResult(summary, { logpoints: tables });
+  }
+
+  private async handleGdbAddWatchExpression(args: any) {
+    const { sessionId, expression } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (!expression || !expression.trim()) {
+        throw new Error('Expression must not be empty');
+      }
+      
+      const watch: WatchExpression = { id: session.nextWatchExpressionId++, expression };
+      session.watchExpressions.push(watch);
+      
+      return this.structuredResult(
+        `Watch expression ${watch.id} added: ${expression}\n\nIt is evaluated at the next stop.`,
+        { id: watch.id, expression }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to add watch expression: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRemoveWatchExpression(args: any) {
+    const { sessionId, id } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const index = session.watchExpressions.findIndex((watch) => watch.id === Number(id));
+      if (index < 0) {
+        throw new Error(`No watch expression with ID: ${id}`);
+      }
+      
+      const [watch] = session.watchExpressions.splice(index, 1);
+      return this.structuredResult(`Watch expression ${watch.id} removed: ${watch.expression}`, { id: watch.id, expression: watch.expression });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to remove watch expression: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbListWatchExpressions(args: any) {
+    const { sessionId } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const watchExpressions = session.watchExpressions.map(({ id, expression, lastValue, lastError }) => ({ id, expression, lastValue, lastError }));
+      
+      const summary = watchExpressions.length > 0
+        ? watchExpressions.map((watch) => `${watch.id}: ${watch.expression} = ${watch.lastError !== undefined ? `<error: ${watch.lastError}>` : watch.lastValue ?? '<not evaluated yet>'}`).join('\n')
+        : 'No watch expressions.';
+      return this.structuredResult(`Watch expressions:\n\n${summary}`, { watchExpressions });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to list watch expressions: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbListBreakpoints(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const breakpoints = await this.listBreakpoints(session, timeoutMs);
+      
+      const summary = breakpoints.length > 0
+        ? breakpoints.map((breakpoint) => `${describeBreakpoint(breakpoint)}, hit ${breakpoint.hitCount} time${breakpoint.hitCount === 1 ? '' : 's'}`).join('\n')
+        : 'No breakpoints.';
+      return this.structuredResult(`Breakpoints:\n\n${summary}`, { breakpoints });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to list breakpoints: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbDeleteBreakpoint(args: any) {
+    const { sessionId, numbers, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const ids = this.breakpointNumbers(numbers, false);
+      await this.executeMiCommand(session, `-break-delete ${ids.join(' ')}`, timeoutMs);
+      this.forgetLogpoints(session, ids);
+      const breakpoints = await this.listBreakpoints(session, timeoutMs);
+      
+      return this.structuredResult(`Deleted breakpoint${ids.length === 1 ? '' : 's'} ${ids.join(', ')}`, { deleted: ids, breakpoints });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to delete breakpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbEnableBreakpoint(args: any) {
+    const { sessionId, numbers, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const ids = this.breakpointNumbers(numbers, true);
+      await this.executeMiCommand(session, `-break-enable ${ids.join(' ')}`, timeoutMs);
+      const breakpoints = this.selectBreakpoints(await this.listBreakpoints(session, timeoutMs), ids);
+      
+      return this.structuredResult(`Enabled ${ids.join(', ')}\n\n${breakpoints.map(describeBreakpoint).join('\n')}`, { breakpoints });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to enable breakpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbDisableBreakpoint(args: any) {
+    const { sessionId, numbers, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const ids = this.breakpointNumbers(numbers, true);
+      await this.executeMiCommand(session, `-break-disable ${ids.join(' ')}`, timeoutMs);
+      const breakpoints = this.selectBreakpoints(await this.listBreakpoints(session, timeoutMs), ids);
+      
+      return this.structuredResult(`Disabled ${ids.join(', ')}\n\n${breakpoints.map(describeBreakpoint).join('\n')}`, { breakpoints });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to disable breakpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbModifyBreakpoint(args: any) {
+    const { sessionId, number, condition, ignoreCount, thread, temporary, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const [id] = this.breakpointNumbers([number], false);
+      
+      let breakpoint = (await this.listBreakpoints(session, timeoutMs)).find((candidate) => candidate.number === id);
+      if (!breakpoint) {
+        throw new Error(`No breakpoint number ${id}`);
+      }
+      
+      // GDB cannot change the thread or disposition of an existing
+      // breakpoint, so those changes re-create it under a new number
+      const isTemporary = breakpoint.disposition === 'del';
+      if ((thread !== undefined && String(thread) !== (breakpoint.thread ?? '0')) || (temporary !== undefined && temporary !== isTemporary)) {
+        const location = breakpoint.originalLocation;
+        if (!location || (breakpoint.type !== 'breakpoint' && breakpoint.type !== 'hw breakpoint')) {
+          throw new Error(`Breakpoint ${id} cannot be re-created to change its thread or temporary flag`);
+        }
+        const replacement = await this.insertBreakpoint(session, location, {
+          condition: condition !== undefined ? condition || undefined : breakpoint.condition,
+          ignoreCount: ignoreCount ?? breakpoint.ignoreCount,
+          thread: thread !== undefined ? thread || undefined : breakpoint.thread,
+          temporary: temporary ?? isTemporary,
+          hardware: breakpoint.type === 'hw breakpoint'
+        }, timeoutMs);
+        await this.executeMiCommand(session, `-break-delete ${id}`, timeoutMs);
+        // A logpoint keeps recording under the breakpoint's new number
+        const logpoint = session.logpoints.get(id);
+        if (logpoint) {
+          session.logpoints.delete(id);
+          logpoint.key = logpoint.number = replacement.number;
+          session.logpoints.set(logpoint.key, logpoint);
+        }
+        if (!breakpoint.enabled) {
+          await this.executeMiCommand(session, `-break-disable ${replacement.number}`, timeoutMs);
+          replacement.enabled = false;
+        }
+        
+        return this.structuredResult(`Breakpoint ${id} re-created as ${describeBreakpoint(replacement)}`, { previousNumber: id, breakpoint: replacement });
+      }
+      
+      if (condition !== undefined) {
+        await this.executeMiCommand(session, `-break-condition ${id}${condition ? ` ${miArgument(condition)}` : ''}`, timeoutMs);
+      }
+      if (ignoreCount !== undefined) {
+        await this.executeMiCommand(session, `-break-after ${id} ${Number(ignoreCount)}`, timeoutMs);
+      }
+      
+      breakpoint = (await this.listBreakpoints(session, timeoutMs)).find((candidate) => candidate.number === id)!;
+      return this.structuredResult(`Breakpoint modified: ${describeBreakpoint(breakpoint)}`, { breakpoint });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to modify breakpoint: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRun(args: any) {
+    const { sessionId, stopAt, async = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const { output } = await this.launchInferior(session, args, stopAt, !async, timeoutMs);
+      
+      if (async) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Program started (running). Use gdb_wait_for_stop or gdb_interrupt to regain control.'
+            }
+          ]
+        };
+      }
+      
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      return this.structuredResult(`Program started\n\nOutput:\n${output}${watches.text}`, { output, watchExpressions: watches.values });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to run program: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbStartProgram(args: any) {
+    const { sessionId, stopAt = 'main', timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const { output } = await this.launchInferior(session, args, stopAt, true, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `Program started and stopped at ${stopAt === 'first-instruction' ? 'the first instruction' : 'main'}\n\nOutput:\n${output}${watches.text}`,
+        { output, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to start program: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbContinue(args: any) {
+    const { sessionId, async = false, reverse = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const before = async ? undefined : await this.snapshotFrame(session, 0, timeoutMs);
+      const { stop } = await this.executeExecCommand(session, `-exec-continue${reverse ? ' --reverse' : ''}`, timeoutMs, !async);
+      
+      if (async) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Continued execution${reverse ? ' backwards' : ''} (running). Use gdb_wait_for_stop or gdb_interrupt to regain control.`
+            }
+          ]
+        };
+      }
+      
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      return this.structuredResult(
+        `Continued execution${reverse ? ' backwards' : ''}\n\n${describeStopContext(context)}${watches.text}`,
+        { context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to continue execution: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbInterrupt(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (session.state !== 'running') {
+        throw new Error('The program is not running');
+      }
+      
+      await this.executeMiCommand(session, '-exec-interrupt', timeoutMs);
+      const stop = await this.waitForStop(session, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(`Program interrupted\n\n${describeStopEvent(stop)}${watches.text}`, { stop, watchExpressions: watches.values });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to interrupt program: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbWaitForStop(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const stop = await this.waitForStop(session, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(`${describeStopEvent(stop)}${watches.text}`, { stop, watchExpressions: watches.values });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to wait for stop: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbStep(args: any) {
+    const { sessionId, instructions = false, count = 1, reverse = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const before = await this.snapshotFrame(session, 0, timeoutMs);
+      
+      // Use stepi for instruction-level stepping, otherwise step
+      const command = `${instructions ? '-exec-step-instruction' : '-exec-step'}${reverse ? ' --reverse' : ''}`;
+      const { stop, steps } = await this.runSteps(session, command, count, timeoutMs);
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `Stepped ${reverse ? 'back ' : ''}${steps > 1 ? `${steps} ` : ''}${instructions ? 'instruction' : 'line'}${steps > 1 ? 's' : ''}${steps < count ? ` (stopped early, ${count} requested)` : ''}\n\n${describeStopContext(context)}${watches.text}`,
+        { steps, context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to step: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbNext(args: any) {
+    const { sessionId, instructions = false, count = 1, reverse = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const before = await this.snapshotFrame(session, 0, timeoutMs);
+      
+      // Use nexti for instruction-level stepping, otherwise next
+      const command = `${instructions ? '-exec-next-instruction' : '-exec-next'}${reverse ? ' --reverse' : ''}`;
+      const { stop, steps } = await this.runSteps(session, command, count, timeoutMs);
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `Stepped ${reverse ? 'back ' : ''}over ${instructions ? 'instruction' : 'function call'}${steps > 1 ? ` ${steps} times` : ''}${steps < count ? ` (stopped early, ${count} requested)` : ''}\n\n${describeStopContext(context)}${watches.text}`,
+        { steps, context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to step over: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbUntil(args: any) {
+    const { sessionId, location, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const before = await this.snapshotFrame(session, 0, timeoutMs);
+      
+      const { stop } = await this.executeExecCommand(session, `-exec-until${location ? ` ${miArgument(location)}` : ''}`, timeoutMs);
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `Ran until ${location ?? 'the next line'}\n\n${describeStopContext(context)}${watches.text}`,
+        { context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to run until location: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbAdvance(args: any) {
+    const { sessionId, location, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
     try {
-      // Start GDB process with MI mode enabled for machine interface
-      const gdbProcess = spawn(gdbPath, ['--interpreter=mi'], {
-        cwd: workingDir,
-        env: process.env,
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
+      const before = await this.snapshotFrame(session, 0, timeoutMs);
       
-      // Create readline interface for reading GDB output
-      const rl = readline.createInterface({
-        input: gdbProcess.stdout,
-        terminal: false
-      });
+      // MI has no -exec-advance, so run the CLI command through MI
+      const command = `-interpreter-exec console ${quoteMiString(`advance ${location}`)}`;
+      const { stop } = await this.executeExecCommand(session, command, timeoutMs);
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `Advanced to ${location}\n\n${describeStopContext(context)}${watches.text}`,
+        { context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to advance: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbStepUntilCondition(args: any) {
+    const { sessionId, condition, mode = 'next', maxSteps = 100, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const limit = Math.min(Math.max(1, Math.floor(maxSteps)), MAX_CONDITION_STEPS);
+      const command = mode === 'step' ? '-exec-step' : '-exec-next';
+      const before = await this.snapshotFrame(session, 0, timeoutMs);
+      
+      const trace: { step: number; func?: string; file?: string; line?: number; value?: string }[] = [];
+      let stop: GdbStopEvent | undefined;
+      let conditionMet = false;
+      let lastValue: string | undefined;
+      while (trace.length < limit) {
+        ({ stop } = await this.executeExecCommand(session, command, timeoutMs));
+        const frame = stop?.frame;
+        const entry: typeof trace[number] = { step: trace.length + 1, func: frame?.func, file: frame?.file, line: frame?.line };
+        trace.push(entry);
+        // A breakpoint, signal or exit ends the walk just like for gdb_step
+        if (!stop || stop.reason !== 'end-stepping-range' || session.state !== 'stopped') {
+          break;
+        }
+        try {
+          const result = await this.executeMiCommand(session, `-data-evaluate-expression ${miArgument(condition)}`, timeoutMs);
+          entry.value = lastValue = miString(result.record.results, 'value') ?? '';
+        } catch (error) {
+          // Not evaluable here, e.g. a variable out of scope; keep going
+          lastValue = undefined;
+        }
+        if (lastValue !== undefined && isTruthy(lastValue)) {
+          conditionMet = true;
+          break;
+        }
+      }
+      
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      const outcome = conditionMet
+        ? `Condition ${condition} became true after ${trace.length} step${trace.length === 1 ? '' : 's'}`
+        : stop && stop.reason !== 'end-stepping-range'
+          ? `Stopped after ${trace.length} step${trace.length === 1 ? '' : 's'} before ${condition} became true`
+          : `Condition ${condition} still false after ${trace.length} step${trace.length === 1 ? '' : 's'}`;
+      const lines = trace.map((entry) => `  ${entry.step}: ${entry.func ?? '??'}${entry.file ? ` at ${entry.file}:${entry.line ?? '?'}` : ''}`);
+      
+      return this.structuredResult(
+        `${outcome}\n\nTrace:\n${lines.join('\n')}\n\n${describeStopContext(context)}${watches.text}`,
+        { condition, conditionMet, steps: trace.length, trace, context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to step until condition: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbFinish(args: any) {
+    const { sessionId, reverse = false, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      // Execution returns to the caller, so compare against its locals
+      const before = await this.snapshotFrame(session, 1, timeoutMs);
+      
+      const { stop } = await this.executeExecCommand(session, `-exec-finish${reverse ? ' --reverse' : ''}`, timeoutMs);
+      const context = await this.buildStopContext(session, stop, before, timeoutMs);
+      const watches = await this.collectWatchExpressions(session, timeoutMs);
+      
+      return this.structuredResult(
+        `${reverse ? 'Returned to the call of the current function' : 'Finished current function'}\n\n${describeStopContext(context)}${watches.text}`,
+        { context, watchExpressions: watches.values }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to finish function: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRecordStart(args: any) {
+    const { sessionId, method = 'full', timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      // Stopped by a fatal signal counts: recording from there and stepping
+      // back is how a crash is usually traced to its cause
+      if (!this.isInferiorStopped(session)) {
+        throw new Error('The program must be started and stopped to record it');
+      }
+      
+      // GDB has no MI commands for process record
+      const output = await this.executeGdbCommand(session, `record ${method === 'btrace' ? 'btrace' : 'full'}`, timeoutMs);
+      const status = parseRecordStatus(await this.executeGdbCommand(session, 'info record', timeoutMs));
+      
+      return this.structuredResult(`Recording started (${method})${output.trim() ? `\n\n${output.trim()}` : ''}`, { status });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to start recording: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRecordStop(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const output = await this.executeGdbCommand(session, 'record stop', timeoutMs);
+      
+      return this.structuredResult(`Recording stopped${output.trim() ? `\n\n${output.trim()}` : ''}`, { active: false });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to stop recording: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbRecordStatus(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const output = await this.executeGdbCommand(session, 'info record', timeoutMs);
+      const status = parseRecordStatus(output);
+      
+      return this.structuredResult(output.trim() || 'No recording is active.', { status });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to get record status: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbBacktrace(args: any) {
+    const { sessionId, full = false, limit, threadId, frameLevel, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const thread = threadId !== undefined ? String(threadId) : await this.getCurrentThreadId(session, timeoutMs);
+      const frames = await this.listStackFrames(session, thread, { lowFrame: frameLevel, limit, full }, timeoutMs);
+      
+      const summary = frames.map(describeFrame).join('\n');
+      return this.structuredResult(
+        `Backtrace${threadId !== undefined ? ` of thread ${thread}` : ''}${full ? ' (full)' : ''}${limit ? ` (limit: ${limit})` : ''}:\n\n${summary}`,
+        { threadId: thread, frames }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to get backtrace: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbListThreads(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const result = await this.executeMiCommand(session, '-thread-info', timeoutMs);
+      const threads = toThreads(result.record.results);
+      
+      const summary = threads.length > 0
+        ? threads.map((thread) => this.describeThread(thread)).join('\n')
+        : 'No threads.';
+      return this.structuredResult(`Threads:\n\n${summary}`, { threads });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to list threads: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSelectThread(args: any) {
+    const { sessionId, threadId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      await this.executeMiCommand(session, `-thread-select ${Number(threadId)}`, timeoutMs);
+      const result = await this.executeMiCommand(session, `-thread-info ${Number(threadId)}`, timeoutMs);
+      const [thread] = toThreads(result.record.results);
       
-      // Create new GDB session
-      const session: GdbSession = {
-        process: gdbProcess,
-        rl,
-        ready: false,
-        id: sessionId,
-        workingDir
+      return this.structuredResult(`Selected thread\n\n${thread ? this.describeThread({ ...thread, current: true }) : threadId}`, { thread });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to select thread: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbSelectFrame(args: any) {
+    const { sessionId, frameLevel, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
       };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      await this.executeMiCommand(session, `-stack-select-frame ${Number(frameLevel)}`, timeoutMs);
+      const result = await this.executeMiCommand(session, '-stack-info-frame', timeoutMs);
+      const [frame] = toFrames(miList(result.record.results, 'frame'));
       
-      // Store session in active sessions map
-      activeSessions.set(sessionId, session);
+      return this.structuredResult(`Selected frame\n\n${frame ? describeFrame(frame) : frameLevel}`, { frame });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to select frame: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbThreadApplyBacktrace(args: any) {
+    const { sessionId, limit, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const result = await this.executeMiCommand(session, '-thread-info', timeoutMs);
+      const threads = toThreads(result.record.results);
       
-      // Collect GDB output until ready
-      let outputBuffer = '';
+      const backtraces: (GdbThread & { frames: GdbFrame[] })[] = [];
+      for (const thread of threads) {
+        // Running threads have no stack to show in non-stop mode
+        const frames = thread.state === 'running' ? [] : await this.listStackFrames(session, thread.id, { limit }, timeoutMs);
+        backtraces.push({ ...thread, frames });
+      }
       
-      // Wait for GDB to be ready (when it outputs the initial prompt)
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('GDB start timeout'));
-        }, 10000); // 10 second timeout
-        
-        rl.on('line', (line) => {
-          // Append line to output buffer
-          outputBuffer += line + '\n';
-          
-          // Check if GDB is ready (outputs prompt)
-          if (line.includes('(gdb)') || line.includes('^done')) {
-            clearTimeout(timeout);
-            session.ready = true;
-            resolve();
+      const summary = backtraces.map((thread) => `${this.describeThread(thread)}\n${thread.frames.map(describeFrame).join('\n')}`).join('\n\n');
+      return this.structuredResult(`Backtrace of ${threads.length} thread${threads.length === 1 ? '' : 's'}:\n\n${summary}`, { threads: backtraces });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to get thread backtraces: ${errorMessage}`
           }
-        });
-        
-        gdbProcess.stderr.on('data', (data) => {
-          outputBuffer += `[stderr] ${data.toString()}\n`;
-        });
-        
-        gdbProcess.on('error', (err) => {
-          clearTimeout(timeout);
-          reject(err);
-        });
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbAnalyzeHang(args: any) {
+    const { sessionId, limit, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      if (session.state === 'running') {
+        throw new Error('The program is running; stop it with gdb_interrupt first');
+      }
+      
+      const result = await this.executeMiCommand(session, '-thread-info', timeoutMs);
+      const threads = toThreads(result.record.results);
+      const threadsByLwp = new Map<number, GdbThread>();
+      for (const thread of threads) {
+        const lwp = threadLwp(thread);
+        if (lwp !== undefined) threadsByLwp.set(lwp, thread);
+      }
+      
+      const stacks: { threadId: string; frames: GdbFrame[] }[] = [];
+      const waits: (ThreadWait & { threadId: string })[] = [];
+      for (const thread of threads) {
+        if (thread.state === 'running') continue;
+        const frames = await this.listStackFrames(session, thread.id, { limit }, timeoutMs);
+        stacks.push({ threadId: thread.id, frames });
         
-        gdbProcess.on('exit', (code) => {
-          clearTimeout(timeout);
-          if (!session.ready) {
-            reject(new Error(`GDB process exited with code ${code}`));
+        const wait = classifyWait(frames);
+        if (!wait) continue;
+        if (wait.kind === 'mutex') {
+          await this.resolveMutexOwner(session, thread.id, wait, timeoutMs);
+          if (wait.ownerLwp !== undefined) {
+            wait.ownerThreadId = threadsByLwp.get(wait.ownerLwp)?.id;
           }
-        });
+        }
+        waits.push({ threadId: thread.id, ...wait });
+      }
+      
+      const edges: WaitForEdge[] = waits
+        .filter((wait) => wait.ownerThreadId !== undefined)
+        .map((wait) => ({ from: wait.threadId, to: wait.ownerThreadId!, object: wait.object, symbol: wait.symbol }));
+      const cycles = findWaitCycles(edges);
+      const groups = groupStacks(stacks);
+      
+      const lines = [
+        `${threads.length} thread${threads.length === 1 ? '' : 's'}, ${groups.length} distinct stack${groups.length === 1 ? '' : 's'}, ${waits.length} blocked`
+      ];
+      if (cycles.length > 0) {
+        lines.push('', 'Deadlocks:');
+        for (const cycle of cycles) {
+          const steps = cycle.map((threadId) => {
+            const edge = edges.find((candidate) => candidate.from === threadId)!;
+            return `thread ${threadId} waits for ${edge.symbol ?? edge.object ?? 'a mutex'} held by thread ${edge.to}`;
+          });
+          lines.push(`  ${steps.join(', ')}`);
+        }
+      }
+      if (waits.length > 0) {
+        lines.push('', 'Blocked threads:');
+        for (const wait of waits) {
+          const object = wait.symbol ?? wait.object;
+          const owner = wait.ownerThreadId !== undefined
+            ? ` held by thread ${wait.ownerThreadId}`
+            : wait.ownerLwp !== undefined ? ` held by LWP ${wait.ownerLwp}` : '';
+          lines.push(`  thread ${wait.threadId}: ${wait.kind} wait in ${wait.function}${object ? ` on ${object}` : ''}${owner}`);
+        }
+      }
+      lines.push('', 'Stacks:');
+      for (const group of groups) {
+        lines.push(`  Thread${group.threadIds.length === 1 ? '' : 's'} ${group.threadIds.join(', ')}:`);
+        lines.push(...group.frames.map((frame) => `    ${describeFrame(frame)}`));
+      }
+      
+      return this.structuredResult(lines.join('\n'), {
+        threads,
+        stackGroups: groups,
+        waits,
+        waitForGraph: { edges, cycles }
       });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to analyze hang: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbPrint(args: any) {
+    const { sessionId, expression, threadId, frameLevel, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const scope = await this.threadFrameOptions(session, threadId, frameLevel, timeoutMs);
+      const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}${miArgument(expression)}`, timeoutMs);
+      const value = miString(result.record.results, 'value') ?? '';
       
+      return this.structuredResult(`Print ${expression}:\n\n${expression} = ${value}`, { expression, value });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `GDB session started with ID: ${sessionId}\n\nOutput:\n${outputBuffer}`
+            text: `Failed to print expression: ${errorMessage}`
           }
-        ]
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbListLocals(args: any) {
+    const { sessionId, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
       };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const result = await this.executeMiCommand(session, '-stack-list-variables --simple-values', timeoutMs);
+      const variables = toVariables(miList(result.record.results, 'variables'));
+      
+      const summary = variables.length > 0
+        ? variables.map((variable) => `${variable.isArgument ? '(arg) ' : ''}${variable.name} = ${variable.value ?? '<' + (variable.type || 'complex') + '>'}`).join('\n')
+        : 'No locals.';
+      return this.structuredResult(`Locals:\n\n${summary}`, { variables });
     } catch (error) {
-      // Clean up if an error occurs
-      if (activeSessions.has(sessionId)) {
-        const session = activeSessions.get(sessionId)!;
-        session.process.kill();
-        session.rl.close();
-        activeSessions.delete(sessionId);
-      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to list locals: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbVarCreate(args: any) {
+    const { sessionId, expression, floating = false, threadId, frameLevel, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const scope = await this.threadFrameOptions(session, threadId, frameLevel, timeoutMs);
+      // "-" lets GDB pick a unique name such as var1
+      const result = await this.executeMiCommand(session, `-var-create ${scope}- ${floating ? '@' : '*'} ${miArgument(expression)}`, timeoutMs);
+      const varobj = toVarobj(result.record.results);
+      varobj.expression = expression;
+      
+      return this.structuredResult(`Created ${this.describeVarobj(varobj)}`, { varobj });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to create variable object: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbVarListChildren(args: any) {
+    const { sessionId, name, offset = 0, limit = 100, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const countResult = await this.executeMiCommand(session, `-var-info-num-children ${miArgument(name)}`, timeoutMs);
+      const total = miNumber(countResult.record.results, 'numchild') ?? 0;
       
+      const result = await this.executeMiCommand(session, `-var-list-children --all-values ${miArgument(name)} ${offset} ${offset + limit}`, timeoutMs);
+      const children = toVarobjs(miList(result.record.results, 'children'));
+      // Pretty-printed containers report more children only as they are fetched
+      const hasMore = miString(result.record.results, 'has_more') === '1' || offset + children.length < total;
+      
+      const summary = children.length > 0 ? children.map((child) => this.describeVarobj(child)).join('\n') : 'No children.';
+      return this.structuredResult(
+        `Children ${offset}-${offset + children.length} of ${name}${hasMore ? ' (more available)' : ''}:\n\n${summary}`,
+        { name, offset, children, hasMore, nextOffset: offset + children.length }
+      );
+    } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to start GDB: ${errorMessage}`
+            text: `Failed to list children: ${errorMessage}`
           }
         ],
         isError: true
@@ -522,8 +5045,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbLoad(args: any) {
-    const { sessionId, program, arguments: programArgs = [] } = args;
+  private async handleGdbVarEvaluate(args: any) {
+    const { sessionId, name, format, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -540,40 +5063,57 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      // Normalize path if working directory is set
-      const normalizedPath = session.workingDir && !path.isAbsolute(program) 
-        ? path.resolve(session.workingDir, program)
-        : program;
-      
-      // Update session target
-      session.target = normalizedPath;
-      
-      // Execute file command to load program
-      const loadCommand = `file "${normalizedPath}"`;
-      const loadOutput = await this.executeGdbCommand(session, loadCommand);
-      
-      // Set program arguments if provided
-      let argsOutput = '';
-      if (programArgs.length > 0) {
-        const argsCommand = `set args ${programArgs.join(' ')}`;
-        argsOutput = await this.executeGdbCommand(session, argsCommand);
+      if (format) {
+        this.checkVarobjFormat(format);
       }
+      const result = await this.executeMiCommand(session, `-var-evaluate-expression ${format ? `-f ${format} ` : ''}${miArgument(name)}`, timeoutMs);
+      const value = miString(result.record.results, 'value') ?? '';
       
+      return this.structuredResult(`${name} = ${value}`, { name, value });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Program loaded: ${normalizedPath}\n\nOutput:\n${loadOutput}${argsOutput ? '\n' + argsOutput : ''}`
+            text: `Failed to evaluate variable object: ${errorMessage}`
           }
-        ]
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbVarSetFormat(args: any) {
+    const { sessionId, name, format, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
       };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      this.checkVarobjFormat(format);
+      const result = await this.executeMiCommand(session, `-var-set-format ${miArgument(name)} ${format}`, timeoutMs);
+      const value = miString(result.record.results, 'value');
+      
+      return this.structuredResult(`${name} format set to ${format}${value !== undefined ? `\n\n${name} = ${value}` : ''}`, { name, format, value });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to load program: ${errorMessage}`
+            text: `Failed to set format: ${errorMessage}`
           }
         ],
         isError: true
@@ -581,8 +5121,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbCommand(args: any) {
-    const { sessionId, command } = args;
+  private async handleGdbVarUpdate(args: any) {
+    const { sessionId, name = '*', timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -599,23 +5139,28 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      const output = await this.executeGdbCommand(session, command);
+      const result = await this.executeMiCommand(session, `-var-update --all-values ${name === '*' ? '*' : miArgument(name)}`, timeoutMs);
+      const changes = toVarobjChanges(miList(result.record.results, 'changelist'));
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Command: ${command}\n\nOutput:\n${output}`
+      const summary = changes.length > 0
+        ? changes.map((change) => {
+          if (change.inScope !== 'true') {
+            return `${change.name}: ${change.inScope === 'false' ? 'out of scope' : 'invalid'}`;
           }
-        ]
-      };
+          const details: string[] = [];
+          if (change.typeChanged) details.push(`type is now ${change.newType}`);
+          if (change.newNumChildren !== undefined) details.push(`${change.newNumChildren} children`);
+          return `${change.name} = ${change.value ?? '?'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+        }).join('\n')
+        : 'No changes.';
+      return this.structuredResult(`Changed variable objects:\n\n${summary}`, { changes });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to execute command: ${errorMessage}`
+            text: `Failed to update variable objects: ${errorMessage}`
           }
         ],
         isError: true
@@ -623,8 +5168,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbTerminate(args: any) {
-    const { sessionId } = args;
+  private async handleGdbVarDelete(args: any) {
+    const { sessionId, name, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -638,50 +5183,92 @@ class GdbServer {
       };
     }
     
+    const session = activeSessions.get(sessionId)!;
+    
     try {
-      await this.terminateGdbSession(sessionId);
+      const result = await this.executeMiCommand(session, `-var-delete ${miArgument(name)}`, timeoutMs);
+      const deleted = miNumber(result.record.results, 'ndeleted') ?? 0;
       
+      return this.structuredResult(`Deleted ${name} (${deleted} variable object${deleted === 1 ? '' : 's'})`, { name, deleted });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `GDB session terminated: ${sessionId}`
+            text: `Failed to delete variable object: ${errorMessage}`
           }
-        ]
+        ],
+        isError: true
       };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private async handleGdbReadMemory(args: any) {
+    const { sessionId, address, length, encoding = 'hex', timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to terminate GDB session: ${errorMessage}`
+            text: `No active GDB session with ID: ${sessionId}`
           }
         ],
         isError: true
       };
     }
-  }
-
-  private async handleGdbListSessions() {
-    const sessions = Array.from(activeSessions.entries()).map(([id, session]) => ({
-      id,
-      target: session.target || 'No program loaded',
-      workingDir: session.workingDir || process.cwd()
-    }));
     
-    return {
-      content: [
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const count = checkMemoryLength(length, MAX_MEMORY_READ);
+      const start = await this.resolveAddress(session, address, timeoutMs);
+      const result = await this.executeMiCommand(session, `-data-read-memory-bytes 0x${start.toString(16)} ${count}`, timeoutMs);
+      
+      // Unreadable parts are left out, so a read can come back in pieces
+      const blocks = miList(result.record.results, 'memory')
+        .filter((block): block is MiTuple => typeof block === 'object' && !Array.isArray(block))
+        .map((block) => {
+          const bytes = Buffer.from(miString(block, 'contents') ?? '', 'hex');
+          return {
+            address: miString(block, 'begin') ?? '',
+            length: bytes.length,
+            contents: encoding === 'base64' ? bytes.toString('base64') : bytes.toString('hex'),
+            bytes
+          };
+        });
+      const readLength = blocks.reduce((total, block) => total + block.length, 0);
+      
+      const previews = blocks.map((block) => {
+        const preview = formatHexDump(block.bytes.subarray(0, HEX_DUMP_PREVIEW), BigInt(block.address));
+        return block.length > HEX_DUMP_PREVIEW ? `${preview}\n... (${block.length - HEX_DUMP_PREVIEW} more bytes)` : preview;
+      });
+      return this.structuredResult(
+        `Read ${readLength} of ${count} bytes at 0x${start.toString(16)}${readLength < count ? ' (part of the range is not readable)' : ''}:\n\n${previews.join('\n\n')}`,
         {
-          type: 'text',
-          text: `Active GDB Sessions (${sessions.length}):\n\n${JSON.stringify(sessions, null, 2)}`
+          address: `0x${start.toString(16)}`,
+          length: readLength,
+          encoding,
+          blocks: blocks.map(({ bytes, ...block }) => block)
         }
-      ]
-    };
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to read memory: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
   }
 
-  private async handleGdbAttach(args: any) {
-    const { sessionId, pid } = args;
+  private async handleGdbWriteMemory(args: any) {
+    const { sessionId, address, hex, base64, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -698,23 +5285,35 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      const output = await this.executeGdbCommand(session, `attach ${pid}`);
+      if ((hex === undefined) === (base64 === undefined)) {
+        throw new Error('Give the bytes either as hex or as base64');
+      }
+      let bytes: Buffer;
+      if (hex !== undefined) {
+        const digits = String(hex).replace(/\s+|0x/gi, '');
+        if (!/^([0-9a-f]{2})+$/i.test(digits)) {
+          throw new Error(`Not a sequence of hex bytes: ${hex}`);
+        }
+        bytes = Buffer.from(digits, 'hex');
+      } else {
+        bytes = Buffer.from(String(base64), 'base64');
+      }
+      checkMemoryLength(bytes.length, MAX_MEMORY_WRITE);
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Attached to process ${pid}\n\nOutput:\n${output}`
-          }
-        ]
-      };
+      const start = await this.resolveAddress(session, address, timeoutMs);
+      await this.executeMiCommand(session, `-data-write-memory-bytes 0x${start.toString(16)} ${bytes.toString('hex')}`, timeoutMs);
+      
+      return this.structuredResult(
+        `Wrote ${bytes.length} byte${bytes.length === 1 ? '' : 's'} at 0x${start.toString(16)}`,
+        { address: `0x${start.toString(16)}`, length: bytes.length }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to attach to process: ${errorMessage}`
+            text: `Failed to write memory: ${errorMessage}`
           }
         ],
         isError: true
@@ -722,8 +5321,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbLoadCore(args: any) {
-    const { sessionId, program, corePath } = args;
+  private async handleGdbFindMemory(args: any) {
+    const { sessionId, address, length, pattern, patternType = 'string', maxMatches = DEFAULT_FIND_MATCHES, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -740,30 +5339,90 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      // First load the program
-      const fileOutput = await this.executeGdbCommand(session, `file "${program}"`);
+      const count = checkMemoryLength(length, MAX_MEMORY_SEARCH);
+      let bytes: Buffer;
+      if (patternType === 'hex') {
+        const digits = String(pattern).replace(/\s+|0x/gi, '');
+        if (!/^([0-9a-f]{2})+$/i.test(digits)) {
+          throw new Error(`Not a sequence of hex bytes: ${pattern}`);
+        }
+        bytes = Buffer.from(digits, 'hex');
+      } else {
+        bytes = Buffer.from(String(pattern), 'utf8');
+      }
+      if (bytes.length === 0 || bytes.length > MAX_MEMORY_WRITE) {
+        throw new Error(`The pattern must be between 1 and ${MAX_MEMORY_WRITE} bytes`);
+      }
+      const limit = Math.max(1, Math.floor(maxMatches));
       
-      // Then load the core file
-      const coreOutput = await this.executeGdbCommand(session, `core-file "${corePath}"`);
+      // MI has no search command; pass the pattern as bytes so no quoting
+      // or character set conversion can change it
+      const start = await this.resolveAddress(session, address, timeoutMs);
+      const values = Array.from(bytes, (byte) => `0x${byte.toString(16).padStart(2, '0')}`).join(', ');
+      const output = await this.executeGdbCommand(session, `find /b${limit} 0x${start.toString(16)}, +${count}, ${values}`, timeoutMs);
       
-      // Get backtrace to show initial state
-      const backtraceOutput = await this.executeGdbCommand(session, "backtrace");
+      const matches = output.split('\n')
+        .map((line) => /^(0x[0-9a-f]+)(?:\s+<([^>]+)>)?/i.exec(line.trim()))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map((match) => match[2] ? { address: match[1], symbol: match[2] } : { address: match[1] });
       
+      const summary = matches.length > 0
+        ? matches.map((match) => `${match.address}${'symbol' in match ? ` <${match.symbol}>` : ''}`).join('\n')
+        : 'Pattern not found.';
+      return this.structuredResult(
+        `Searched ${count} bytes at 0x${start.toString(16)} for ${bytes.length}-byte pattern: ${matches.length} match${matches.length === 1 ? '' : 'es'}${matches.length >= limit ? ' (limit reached)' : ''}\n\n${summary}`,
+        { address: `0x${start.toString(16)}`, length: count, matches, limitReached: matches.length >= limit }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Core file loaded: ${corePath}\n\nOutput:\n${fileOutput}\n${coreOutput}\n\nBacktrace:\n${backtraceOutput}`
+            text: `Failed to search memory: ${errorMessage}`
           }
-        ]
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbDumpMemory(args: any) {
+    const { sessionId, address, length, localPath, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
       };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const count = checkMemoryLength(length, MAX_MEMORY_DUMP);
+      const file = session.workingDir ? path.resolve(session.workingDir, localPath) : localPath;
+      const start = await this.resolveAddress(session, address, timeoutMs);
+      const end = start + BigInt(count);
+      
+      await this.executeGdbCommand(session, `dump binary memory ${quoteMiString(file)} 0x${start.toString(16)} 0x${end.toString(16)}`, timeoutMs);
+      
+      return this.structuredResult(
+        `Dumped ${count} bytes at 0x${start.toString(16)} to ${file}`,
+        { address: `0x${start.toString(16)}`, length: count, localPath: file }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to load core file: ${errorMessage}`
+            text: `Failed to dump memory: ${errorMessage}`
           }
         ],
         isError: true
@@ -771,8 +5430,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbSetBreakpoint(args: any) {
-    const { sessionId, location, condition } = args;
+  private async handleGdbMemoryMap(args: any) {
+    const { sessionId, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -789,37 +5448,26 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      // Set breakpoint
-      let command = `break ${location}`;
-      const output = await this.executeGdbCommand(session, command);
+      const { source, regions } = await this.readMemoryMap(session, timeoutMs);
       
-      // Set condition if provided
-      let conditionOutput = '';
-      if (condition) {
-        // Extract breakpoint number from output (assumes format like "Breakpoint 1 at...")
-        const match = output.match(/Breakpoint (\d+)/);
-        if (match && match[1]) {
-          const bpNum = match[1];
-          const conditionCommand = `condition ${bpNum} ${condition}`;
-          conditionOutput = await this.executeGdbCommand(session, conditionCommand);
-        }
+      if (regions.length === 0) {
+        return this.structuredResult('No memory map is available for this target', { source, regions });
       }
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Breakpoint set at: ${location}${condition ? ` with condition: ${condition}` : ''}\n\nOutput:\n${output}${conditionOutput ? '\n' + conditionOutput : ''}`
-          }
-        ]
-      };
+      // `info files` only knows the sections of loaded files, not the heap,
+      // stacks or anonymous mappings
+      const note = source === 'files' ? ' (sections from "info files"; the target does not report its mappings)' : '';
+      return this.structuredResult(
+        `${regions.length} memory region${regions.length === 1 ? '' : 's'}${note}:\n\n${regions.map(describeMemoryRegion).join('\n')}`,
+        { source, regions }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to set breakpoint: ${errorMessage}`
+            text: `Failed to read memory map: ${errorMessage}`
           }
         ],
         isError: true
@@ -827,8 +5475,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbContinue(args: any) {
-    const { sessionId } = args;
+  private async handleGdbSharedLibraries(args: any) {
+    const { sessionId, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -845,23 +5493,70 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      const output = await this.executeGdbCommand(session, "continue");
+      const libraries = await this.listSharedLibraries(session, timeoutMs);
+      
+      if (libraries.length === 0) {
+        return this.structuredResult('No shared libraries loaded', { libraries });
+      }
+      
+      const { source, regions } = await this.readMemoryMap(session, timeoutMs);
+      if (source === 'mappings') {
+        for (const library of libraries) {
+          library.regions = regions.filter((region) => region.objfile !== undefined && isSameFile(region.objfile, library.path));
+        }
+      }
       
+      const lines = libraries.map((library) => {
+        const range = library.start && library.end ? `${library.start}-${library.end}` : '(not loaded)';
+        const symbols = !library.symbolsLoaded ? 'no symbols' : library.debugInfo === false ? 'symbols, no debug info' : 'symbols';
+        const mappings = (library.regions ?? []).map((region) => `\n    ${describeMemoryRegion(region)}`).join('');
+        return `${range} ${library.path} [${symbols}]${mappings}`;
+      });
+      return this.structuredResult(
+        `${libraries.length} shared librar${libraries.length === 1 ? 'y' : 'ies'}:\n\n${lines.join('\n')}`,
+        { libraries }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Continued execution\n\nOutput:\n${output}`
+            text: `Failed to list shared libraries: ${errorMessage}`
           }
-        ]
+        ],
+        isError: true
       };
+    }
+  }
+
+  private async handleGdbAddressInfo(args: any) {
+    const { sessionId, address, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      const info = await this.addressInfo(session, address, timeoutMs);
+      return this.structuredResult(describeAddressInfo(info), { ...info });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to continue execution: ${errorMessage}`
+            text: `Failed to look up address: ${errorMessage}`
           }
         ],
         isError: true
@@ -869,8 +5564,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbStep(args: any) {
-    const { sessionId, instructions = false } = args;
+  private async handleGdbDisassemble(args: any) {
+    const { sessionId, function: functionName, startAddress, endAddress, around, source = false, opcodes = true, threadId, frameLevel, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -887,25 +5582,86 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      // Use stepi for instruction-level stepping, otherwise step
-      const command = instructions ? "stepi" : "step";
-      const output = await this.executeGdbCommand(session, command);
+      if ((startAddress === undefined) !== (endAddress === undefined)) {
+        throw new Error('startAddress and endAddress must be given together');
+      }
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Stepped ${instructions ? 'instruction' : 'line'}\n\nOutput:\n${output}`
-          }
-        ]
-      };
+      const scope = await this.threadFrameOptions(session, threadId, frameLevel, timeoutMs);
+      let pc: string | undefined;
+      try {
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}$pc`, timeoutMs);
+        [pc] = parsePointer(miString(result.record.results, 'value') ?? '');
+      } catch (error) {
+        // No running program, so there is no $pc to mark
+        pc = undefined;
+      }
+      
+      // 0: plain, 2: raw opcodes, 4: with source, 5: source and raw opcodes
+      const mode = (source ? 4 : 0) + (opcodes ? (source ? 1 : 2) : 0);
+      let ranges: string[];
+      let description: string;
+      if (functionName) {
+        ranges = [`-a ${miArgument(functionName)}`];
+        description = functionName;
+      } else if (startAddress !== undefined) {
+        ranges = [`-s ${miArgument(startAddress)} -e ${miArgument(endAddress)}`];
+        description = `${startAddress} to ${endAddress}`;
+      } else {
+        if (!pc) {
+          throw new Error('The program is not running; give a function or an address range');
+        }
+        // Disassembling the whole function keeps instruction boundaries right
+        // before $pc; without symbols fall back to what follows it
+        const context = around ?? DEFAULT_DISASSEMBLY_CONTEXT;
+        ranges = [`-a ${pc}`, `-s ${pc} -e "${pc} + ${context * 16}"`];
+        description = `around ${pc}`;
+      }
+      
+      let instructions: GdbInstruction[] | undefined;
+      let lastError: unknown;
+      for (const range of ranges) {
+        try {
+          const result = await this.executeMiCommand(session, `-data-disassemble ${scope}${range} -- ${mode}`, timeoutMs);
+          const values = miList(result.record.results, 'asm_insns');
+          instructions = source ? toSourceInstructions(values) : toInstructions(values);
+          break;
+        } catch (error) {
+          lastError = error;
+        }
+      }
+      if (!instructions) {
+        throw lastError;
+      }
+      if (!functionName && startAddress === undefined && pc) {
+        instructions = instructionWindow(instructions, pc, around ?? DEFAULT_DISASSEMBLY_CONTEXT);
+      }
+      const truncated = instructions.length > MAX_DISASSEMBLY_INSTRUCTIONS;
+      instructions = instructions.slice(0, MAX_DISASSEMBLY_INSTRUCTIONS);
+      
+      const isCurrent = (instruction: GdbInstruction) => pc !== undefined && BigInt(instruction.address) === BigInt(pc);
+      const lines: string[] = [];
+      let lastLine: string | undefined;
+      for (const instruction of instructions) {
+        const sourceLine = instruction.file !== undefined ? `${instruction.file}:${instruction.line}` : undefined;
+        if (sourceLine !== undefined && sourceLine !== lastLine) {
+          lines.push(sourceLine);
+          lastLine = sourceLine;
+        }
+        lines.push(describeInstruction(instruction, isCurrent(instruction)));
+      }
+      const marked = instructions.map((instruction) => isCurrent(instruction) ? { ...instruction, current: true } : instruction);
+      
+      return this.structuredResult(
+        `Disassembly of ${description}${truncated ? ` (first ${MAX_DISASSEMBLY_INSTRUCTIONS} instructions)` : ''}:\n\n${lines.join('\n')}`,
+        { pc, instructions: marked, truncated }
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: 'text',
-            text: `Failed to step: ${errorMessage}`
+            text: `Failed to disassemble: ${errorMessage}`
           }
         ],
         isError: true
@@ -913,8 +5669,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbNext(args: any) {
-    const { sessionId, instructions = false } = args;
+  private async handleGdbExamine(args: any) {
+    const { sessionId, expression, format = 'x', count = 1, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -931,15 +5687,27 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      // Use nexti for instruction-level stepping, otherwise next
-      const command = instructions ? "nexti" : "next";
-      const output = await this.executeGdbCommand(session, command);
+      if (/[\r\n]/.test(expression)) {
+        throw new Error('The expression cannot contain line breaks');
+      }
+      if (!/^[xduotacfsizb]$/.test(format)) {
+        throw new Error(`Unknown format: ${format}`);
+      }
+      // Numeric strings such as "16" are accepted as counts
+      const units = Number(count);
+      if (!Number.isInteger(units) || units <= 0 || units > MAX_MEMORY_READ) {
+        throw new Error(`count must be an integer between 1 and ${MAX_MEMORY_READ}`);
+      }
+      
+      // Format examine command: x/[count][format] [expression]
+      const command = `x/${units}${format} ${expression}`;
+      const output = await this.executeGdbCommand(session, command, timeoutMs);
       
       return {
         content: [
           {
             type: 'text',
-            text: `Stepped over ${instructions ? 'instruction' : 'function call'}\n\nOutput:\n${output}`
+            text: `Examine ${expression} (format: ${format}, count: ${count}):\n\n${output}`
           }
         ]
       };
@@ -949,7 +5717,57 @@ class GdbServer {
         content: [
           {
             type: 'text',
-            text: `Failed to step over: ${errorMessage}`
+            text: `Failed to examine memory: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private async handleGdbInfoRegisters(args: any) {
+    const { sessionId, register, threadId, frameLevel, timeoutMs } = args;
+    
+    if (!activeSessions.has(sessionId)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No active GDB session with ID: ${sessionId}`
+          }
+        ],
+        isError: true
+      };
+    }
+    
+    const session = activeSessions.get(sessionId)!;
+    
+    try {
+      // Register values are reported by number, so resolve names first
+      const namesResult = await this.executeMiCommand(session, '-data-list-register-names', timeoutMs);
+      const names = miList(namesResult.record.results, 'register-names');
+      
+      const scope = await this.threadFrameOptions(session, threadId, frameLevel, timeoutMs);
+      let command = `-data-list-register-values ${scope}--skip-unavailable x`;
+      if (register) {
+        const number = names.indexOf(register.replace(/^\$/, ''));
+        if (number < 0) {
+          throw new Error(`Unknown register: ${register}`);
+        }
+        command += ` ${number}`;
+      }
+      const valuesResult = await this.executeMiCommand(session, command, timeoutMs);
+      const registers = toRegisters(miList(valuesResult.record.results, 'register-values'), names);
+      
+      const summary = registers.map((entry) => `${entry.name.padEnd(8)} ${entry.value}`).join('\n');
+      return this.structuredResult(`Register info${register ? ` for ${register}` : ''}:\n\n${summary}`, { registers });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Failed to get register info: ${errorMessage}`
           }
         ],
         isError: true
@@ -957,8 +5775,8 @@ class GdbServer {
     }
   }
 
-  private async handleGdbFinish(args: any) {
-    const { sessionId } = args;
+  private async handleGdbListSource(args: any) {
+    const { sessionId, location, lineCount = 10, timeoutMs } = args;
     
     if (!activeSessions.has(sessionId)) {
       return {
@@ -975,13 +5793,42 @@ class GdbServer {
     const session = activeSessions.get(sessionId)!;
     
     try {
-      const output = await this.executeGdbCommand(session, "finish");
+      // Build list command with optional location and line count
+      const command = location ? `list ${location}` : 'list';
+      const output = await this.executeGdbCommand(session, command, timeoutMs);
+      
+      // Parse output to extract file and line information
+      const sourceInfo = await this.parseSourceInfoFromGdbOutput(session, output, timeoutMs);
+      
+      // If we got valid source information, return it in a structured format
+      if (sourceInfo.filePath) {
+        return {
+          debug: {
+            sourceInfo
+          },
+          content: [
+            {
+              type: 'text',
+              text: `Source code ${location ? `at ${location}` : 'at current location'}:\n\n${output}`
+            },
+            {
+              type: 'source_location',
+              filePath: sourceInfo.filePath,
+              lineStart: sourceInfo.lineStart, 
+              vscodeUri: `vscode://file${sourceInfo.filePath}:${sourceInfo.lineStart}`,
+              lineEnd: sourceInfo.lineEnd,
+              currentLine: sourceInfo.currentLine
+            }
+          ]
+        };
+      }
       
+      // If we couldn't extract source information, just return the text output
       return {
         content: [
           {
             type: 'text',
-            text: `Finished current function\n\nOutput:\n${output}`
+            text: `Source code ${location ? `at ${location}` : 'at current location'}:\n\n${output}`
           }
         ]
       };
@@ -991,7 +5838,7 @@ class GdbServer {
         content: [
           {
             type: 'text',
-            text: `Failed to finish function: ${errorMessage}`
+            text: `Failed to list source: ${errorMessage}`
           }
         ],
         isError: true
@@ -999,397 +5846,1469 @@ class GdbServer {
     }
   }
 
-  private async handleGdbBacktrace(args: any) {
-    const { sessionId, full = false, limit } = args;
+  /**
+   * Parse GDB output to extract source code file path and line range
+   */
+  private async parseSourceInfoFromGdbOutput(session: GdbSession, output: string, timeoutMs?: number): Promise<{ filePath: string, lineStart: number, lineEnd: number, currentLine: number }> {
+    // Default return value when parsing fails
+    const defaultResult = { filePath: '', lineStart: 0, lineEnd: 0, currentLine: 0 };
     
-    if (!activeSessions.has(sessionId)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No active GDB session with ID: ${sessionId}`
-          }
-        ],
-        isError: true
+    // Check if the output contains source lines
+    if (!output.trim()) {
+      return defaultResult;
+    }
+    
+    try {
+      // First, get the current location using 'info line'
+      // This gives us both the file and the current line in a reliable way
+      const infoLineOutput = await this.executeGdbCommand(session, 'info line', timeoutMs);
+      
+      // Parse the file path and line number from info line output
+      // Example output: "Line 17 of \"crash.c\" starts at address 0x1149 <main+0> and ends at 0x1155 <main+12>."
+      const infoLineMatch = infoLineOutput.match(/Line (\d+) of "([^"]+)"/);
+      
+      let filePath = '';
+      let currentLine = 0;
+      
+      if (infoLineMatch) {
+        currentLine = parseInt(infoLineMatch[1], 10);
+        filePath = infoLineMatch[2];
+      } else {
+        // Fallback to info source if info line doesn't work
+        const infoOutput = await this.executeGdbCommand(session, 'info source', timeoutMs);
+        const filePathMatch = infoOutput.match(/Current source file is (.*?)(?: |$)/);
+        filePath = filePathMatch ? filePathMatch[1] : '';
+      }
+      
+      // Now extract the line numbers from the list output
+      // Format for GDB list output is usually line numbers followed by the code:
+      // 10     void function_with_args(int a, int b) {
+      const lines = output.split('\n').filter(line => line.trim());
+      
+      // Detect if there's source code in the output
+      // Look for lines that start with numbers
+      const sourceLines = lines.filter(line => /^\s*\d+\s+/.test(line));
+      
+      if (sourceLines.length === 0) {
+        return defaultResult;
+      }
+      
+      // Extract line numbers from the first and last source lines
+      const firstLineMatch = sourceLines[0].match(/^\s*(\d+)\s+/);
+      const lastLineMatch = sourceLines[sourceLines.length - 1].match(/^\s*(\d+)\s+/);
+      
+      if (firstLineMatch && lastLineMatch) {
+        return {
+          filePath,
+          lineStart: parseInt(firstLineMatch[1], 10),
+          lineEnd: parseInt(lastLineMatch[1], 10),
+          currentLine
+        };
+      }
+    } catch (e) {
+      // If there's any error in parsing, continue with default result
+    }
+    
+    return defaultResult;
+  }
+
+  /**
+   * Insert a breakpoint and return its record
+   */
+  private async insertBreakpoint(
+    session: GdbSession,
+    location: string,
+    options: { condition?: string; ignoreCount?: number; thread?: number | string; temporary?: boolean; hardware?: boolean },
+    timeoutMs?: number
+  ): Promise<GdbBreakpoint> {
+    // -f allows a pending breakpoint in a library that is not loaded yet
+    let command = '-break-insert -f';
+    if (options.temporary) {
+      command += ' -t';
+    }
+    if (options.hardware) {
+      command += ' -h';
+    }
+    if (options.condition) {
+      command += ` -c ${miArgument(options.condition)}`;
+    }
+    if (options.ignoreCount !== undefined) {
+      command += ` -i ${Number(options.ignoreCount)}`;
+    }
+    if (options.thread !== undefined) {
+      command += ` -p ${Number(options.thread)}`;
+    }
+    command += ` ${miArgument(location)}`;
+    
+    const result = await this.executeMiCommand(session, command, timeoutMs);
+    return toBreakpoint(result.record.results.bkpt);
+  }
+  
+  /**
+   * Fetch every breakpoint, watchpoint and catchpoint
+   */
+  private async listBreakpoints(session: GdbSession, timeoutMs?: number): Promise<GdbBreakpoint[]> {
+    const result = await this.executeMiCommand(session, '-break-list', timeoutMs);
+    const table = result.record.results.BreakpointTable;
+    const body = typeof table === 'object' && !Array.isArray(table) ? miList(table, 'body') : [];
+    return toBreakpointTable(body);
+  }
+  
+  /**
+   * Validate breakpoint numbers passed to a tool
+   */
+  private breakpointNumbers(numbers: unknown, allowLocations: boolean): string[] {
+    const list = (Array.isArray(numbers) ? numbers : [numbers]).map((number) => String(number).trim());
+    const pattern = allowLocations ? /^\d+(\.\d+)?$/ : /^\d+$/;
+    if (list.length === 0 || list.some((number) => !pattern.test(number))) {
+      throw new Error(`Invalid breakpoint number list: ${JSON.stringify(numbers)}`);
+    }
+    return list;
+  }
+  
+  /**
+   * Pick the breakpoints a list of breakpoint or location numbers refers to
+   */
+  private selectBreakpoints(breakpoints: GdbBreakpoint[], ids: string[]): GdbBreakpoint[] {
+    const owners = new Set(ids.map((id) => id.split('.')[0]));
+    return breakpoints.filter((breakpoint) => owners.has(breakpoint.number));
+  }
+  
+  /**
+   * Apply the launch options shared by gdb_run and gdb_start_program, then
+   * start the inferior
+   */
+  private async launchInferior(session: GdbSession, options: any, stopAt: string | undefined, waitForStop: boolean, timeoutMs?: number): Promise<ExecResult> {
+    const { arguments: programArgs, environment = {}, unsetEnvironment = [], cwd, stdin } = options;
+    
+    if (programArgs !== undefined) {
+      await this.setProgramArguments(session, programArgs, timeoutMs);
+    }
+    
+    const checkName = (name: string) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid environment variable name: ${JSON.stringify(name)}`);
+      }
+    };
+    for (const name of unsetEnvironment) {
+      checkName(name);
+      await this.executeGdbCommand(session, `unset environment ${name}`, timeoutMs);
+    }
+    for (const [name, value] of Object.entries(environment)) {
+      checkName(name);
+      if (/[\r\n]/.test(String(value))) {
+        throw new Error(`Environment variable values cannot contain line breaks: ${name}`);
+      }
+      await this.executeGdbCommand(session, `set environment ${name}=${value}`, timeoutMs);
+    }
+    
+    if (cwd !== undefined) {
+      if (/[\r\n]/.test(cwd)) {
+        throw new Error('The working directory cannot contain line breaks');
+      }
+      const inferiorCwd = session.workingDir && !path.isAbsolute(cwd) ? path.resolve(session.workingDir, cwd) : cwd;
+      await this.executeGdbCommand(session, `set cwd ${inferiorCwd}`, timeoutMs);
+    }
+    
+    const runCommand = stopAt === undefined || stopAt === 'none' ? '-exec-run'
+      : stopAt === 'main' ? '-exec-run --start'
+      : stopAt === 'first-instruction' ? 'starti'
+      : undefined;
+    if (!runCommand) {
+      throw new Error(`Invalid stopAt value: ${stopAt} (expected "none", "main" or "first-instruction")`);
+    }
+    
+    // The redirections are added to the arguments for this run only, so
+    // "show args" and later "set args" commands never see them
+    const redirections = await this.programRedirections(session, stdin, timeoutMs);
+    let savedArgs: string | undefined;
+    if (redirections.length > 0) {
+      const result = await this.executeMiCommand(session, '-gdb-show args', timeoutMs);
+      savedArgs = miString(result.record.results, 'value') ?? '';
+      await this.executeGdbCommand(session, `set args ${[savedArgs, ...redirections].filter(Boolean).join(' ')}`, timeoutMs);
+    }
+    
+    let result: ExecResult;
+    try {
+      result = await this.executeExecCommand(session, runCommand, timeoutMs, waitForStop);
+    } finally {
+      if (savedArgs !== undefined) {
+        await this.executeGdbCommand(session, `set args ${savedArgs}`, timeoutMs);
+      }
+    }
+    if (session.programIo && !session.programIoRedirected) {
+      result.output = `Program input and output are not captured for this run (remote target or startup-with-shell off); they go to GDB's terminal\n${result.output}`;
+    }
+    return result;
+  }
+  
+  /**
+   * Shell redirections that connect the inferior's streams to the stdin
+   * file and the session's program pipes. They need the shell GDB starts
+   * native programs with; remote targets start programs on their own.
+   */
+  private async programRedirections(session: GdbSession, stdin: string | undefined, timeoutMs?: number): Promise<string[]> {
+    const io = session.programIo;
+    session.programIoRedirected = false;
+    if (!io && stdin === undefined) {
+      return [];
+    }
+    
+    let withShell = session.remote === undefined;
+    if (withShell) {
+      try {
+        const result = await this.executeMiCommand(session, '-gdb-show startup-with-shell', timeoutMs);
+        withShell = miString(result.record.results, 'value') !== 'off';
+      } catch (error) {
+        // GDB before 7.12 always starts the program through the shell
+      }
+    }
+    if (!withShell) {
+      if (stdin !== undefined) {
+        throw new Error('stdin can only be redirected for native targets with startup-with-shell on');
+      }
+      return [];
+    }
+    
+    const words: string[] = [];
+    if (stdin !== undefined) {
+      const stdinPath = session.workingDir && !path.isAbsolute(stdin) ? path.resolve(session.workingDir, stdin) : stdin;
+      words.push(`< ${quoteShellArgument(stdinPath)}`);
+    } else if (io) {
+      reopenProgramInput(io);
+      words.push(`< ${quoteShellArgument(io.stdinPath)}`);
+    }
+    if (io) {
+      words.push(`> ${quoteShellArgument(io.stdoutPath)}`, `2> ${quoteShellArgument(io.stderrPath)}`);
+      session.programIoRedirected = true;
+    }
+    return words;
+  }
+  
+  /**
+   * Set the inferior's argv, quoting each argument for the startup shell
+   */
+  private async setProgramArguments(session: GdbSession, programArgs: string[], timeoutMs?: number): Promise<string> {
+    const argsText = programArgs.map(quoteShellArgument).join(' ');
+    const output = await this.executeGdbCommand(session, `set args ${argsText}`, timeoutMs);
+    session.programArgs = programArgs;
+    return output;
+  }
+  
+  /**
+   * Run a tool call once every call queued before it on the session has
+   * finished. Cancelling the request removes it from the queue.
+   */
+  private runQueued<T>(session: GdbSession, tool: string, signal: AbortSignal, call: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = session.callQueue.indexOf(entry);
+        if (index >= 0) {
+          session.callQueue.splice(index, 1);
+          reject(new Error('Tool call cancelled while queued'));
+        }
+      };
+      
+      const entry: QueuedCall = {
+        tool,
+        start: () => {
+          signal.removeEventListener('abort', onAbort);
+          session.activeCall = tool;
+          call().then(resolve, reject).finally(() => {
+            session.activeCall = undefined;
+            session.callQueue.shift()?.start();
+          });
+        },
+        cancel: (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      
+      if (signal.aborted) {
+        reject(new Error('Tool call cancelled while queued'));
+        return;
+      }
+      
+      if (session.activeCall === undefined) {
+        entry.start();
+      } else {
+        signal.addEventListener('abort', onAbort);
+        session.callQueue.push(entry);
+      }
+    });
+  }
+  
+  /**
+   * Validate a variable object display format passed to a tool
+   */
+  private checkVarobjFormat(format: unknown) {
+    if (typeof format !== 'string' || !VAROBJ_FORMATS.includes(format)) {
+      throw new Error(`Invalid format: ${format} (expected one of ${VAROBJ_FORMATS.join(', ')})`);
+    }
+  }
+  
+  /**
+   * One-line description of a variable object, e.g. "var1 (struct point, 2 children) = {...}"
+   */
+  private describeVarobj(varobj: GdbVarobj): string {
+    const children = varobj.dynamic && varobj.hasMore
+      ? 'children'
+      : `${varobj.numChildren} ${varobj.numChildren === 1 ? 'child' : 'children'}`;
+    const label = varobj.expression !== undefined && varobj.expression !== varobj.name ? `${varobj.name} [${varobj.expression}]` : varobj.name;
+    return `${label} (${varobj.type ?? 'unknown type'}${varobj.numChildren > 0 || varobj.hasMore ? `, ${children}` : ''}) = ${varobj.value ?? ''}`;
+  }
+  
+  /**
+   * One-line description of a thread, e.g. "* 1 Thread 0x7ffff7d8a740 (LWP 42) "worker" stopped"
+   */
+  private describeThread(thread: GdbThread): string {
+    return `${thread.current ? '*' : ' '} ${thread.id} ${thread.targetId ?? ''}${thread.name ? ` "${thread.name}"` : ''}${thread.state ? ` ${thread.state}` : ''}`;
+  }
+  
+  /**
+   * Build a tool result carrying a human summary plus the same data as JSON
+   */
+  private structuredResult(summary: string, data: Record<string, unknown>) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: summary
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2)
+        }
+      ],
+      structuredContent: data
+    };
+  }
+  
+  /**
+   * Get the id of the thread GDB currently has selected
+   */
+  private async getCurrentThreadId(session: GdbSession, timeoutMs?: number): Promise<string> {
+    const result = await this.executeMiCommand(session, '-thread-info', timeoutMs);
+    const threadId = miString(result.record.results, 'current-thread-id');
+    if (!threadId) {
+      throw new Error('No thread selected');
+    }
+    return threadId;
+  }
+  
+  /**
+   * Build the --thread/--frame options that make a command operate on a
+   * given thread and frame without changing the selection. MI requires a
+   * thread whenever a frame is given.
+   */
+  private async threadFrameOptions(session: GdbSession, threadId: number | string | undefined, frameLevel: number | undefined, timeoutMs?: number): Promise<string> {
+    if (frameLevel !== undefined) {
+      const thread = threadId !== undefined ? threadId : await this.getCurrentThreadId(session, timeoutMs);
+      return `--thread ${Number(thread)} --frame ${Number(frameLevel)} `;
+    }
+    return threadId !== undefined ? `--thread ${Number(threadId)} ` : '';
+  }
+  
+  /**
+   * List the frames of a thread with their arguments, and with their locals
+   * when `full` is set
+   */
+  private async listStackFrames(
+    session: GdbSession,
+    threadId: string,
+    options: { lowFrame?: number; limit?: number; full?: boolean },
+    timeoutMs?: number
+  ): Promise<GdbFrame[]> {
+    const low = options.lowFrame ?? 0;
+    let range = '';
+    if (typeof options.limit === 'number' && options.limit > 0) {
+      range = ` ${low} ${low + options.limit - 1}`;
+    } else if (low > 0) {
+      // There is no open-ended range, so use an upper bound no stack reaches
+      range = ` ${low} 1000000`;
+    }
+    
+    const framesResult = await this.executeMiCommand(session, `-stack-list-frames --thread ${threadId}${range}`, timeoutMs);
+    const frames = toFrames(miList(framesResult.record.results, 'stack'));
+    
+    // Arguments are reported separately from the frames themselves
+    const argsResult = await this.executeMiCommand(session, `-stack-list-arguments --thread ${threadId} --simple-values${range}`, timeoutMs);
+    for (const entry of toFrames(miList(argsResult.record.results, 'stack-args'))) {
+      const frame = frames.find((candidate) => candidate.level === entry.level);
+      if (frame) {
+        frame.args = entry.args ?? [];
+      }
+    }
+    
+    if (options.full) {
+      for (const frame of frames) {
+        frame.locals = await this.listFrameVariables(session, threadId, frame.level, '--all-values', timeoutMs);
+      }
+    }
+    
+    return frames;
+  }
+  
+  /**
+   * Spawn GDB in MI mode and register the session once it is ready. Throws,
+   * after cleaning up, if GDB fails to start.
+   */
+  private async startGdbSession(options: {
+    gdbPath?: string;
+    workingDir?: string;
+    defaultTimeoutMs?: number;
+    captureProgramOutput?: boolean;
+  }): Promise<{ session: GdbSession; output: string }> {
+    const gdbPath = options.gdbPath || 'gdb';
+    const workingDir = options.workingDir || process.cwd();
+    const defaultTimeoutMs = options.defaultTimeoutMs ?? serverTimeoutMs;
+    const captureProgramOutput = options.captureProgramOutput ?? true;
+    
+    // Create a unique session ID; sessions started in the same millisecond
+    // (e.g. by gdb_analyze_cores) get a suffix
+    let sessionId = Date.now().toString();
+    for (let suffix = 1; activeSessions.has(sessionId); suffix++) {
+      sessionId = `${Date.now()}-${suffix}`;
+    }
+    
+    try {
+      // Start GDB process with MI mode enabled for machine interface
+      const gdbProcess = spawn(gdbPath, ['--interpreter=mi'], {
+        cwd: workingDir,
+        env: process.env,
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+      
+      // Create readline interface for reading GDB output
+      const rl = readline.createInterface({
+        input: gdbProcess.stdout,
+        terminal: false
+      });
+      
+      // Create new GDB session
+      const session: GdbSession = {
+        process: gdbProcess,
+        rl,
+        ready: false,
+        id: sessionId,
+        workingDir,
+        programArgs: [],
+        defaultTimeoutMs,
+        callQueue: [],
+        nextToken: 1,
+        pendingCommands: new Map(),
+        events: new EventEmitter(),
+        state: 'not-started',
+        stopEvents: [],
+        stopEventCount: 0,
+        logpoints: new Map(),
+        nextLogpointId: 1,
+        watchExpressions: [],
+        nextWatchExpressionId: 1
       };
-    }
-    
-    const session = activeSessions.get(sessionId)!;
-    
-    try {
-      // Build backtrace command with options
-      let command = full ? "backtrace full" : "backtrace";
-      if (typeof limit === 'number') {
-        command += ` ${limit}`;
+      
+      // Store session in active sessions map
+      activeSessions.set(sessionId, session);
+      
+      if (captureProgramOutput) {
+        session.programIo = createProgramIo(sessionId);
       }
       
-      const output = await this.executeGdbCommand(session, command);
+      // Route every line of GDB output through the MI record dispatcher
+      rl.on('line', (line) => this.handleGdbOutputLine(session, line));
+      gdbProcess.stderr.on('data', (data) => this.handleGdbStderr(session, data.toString()));
+      gdbProcess.on('exit', (code) => {
+        session.ready = false;
+        this.rejectPendingCommands(session, new Error(`GDB process exited with code ${code}`));
+      });
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Backtrace${full ? ' (full)' : ''}${limit ? ` (limit: ${limit})` : ''}:\n\n${output}`
-          }
-        ]
+      // Collect GDB output until ready
+      let outputBuffer = '';
+      const onStream = (record: MiStreamRecord) => {
+        outputBuffer += record.text;
       };
+      session.events.on('stream', onStream);
+      
+      // Wait for GDB to be ready (when it outputs the initial prompt)
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            reject(new Error(`GDB start timed out after ${defaultTimeoutMs} ms${outputBuffer ? `\n\nPartial output:\n${outputBuffer}` : ''}`));
+          }, defaultTimeoutMs);
+          
+          session.events.once('prompt', () => {
+            clearTimeout(timeout);
+            session.ready = true;
+            resolve();
+          });
+          
+          gdbProcess.on('error', (err) => {
+            clearTimeout(timeout);
+            reject(err);
+          });
+          
+          gdbProcess.on('exit', (code) => {
+            clearTimeout(timeout);
+            if (!session.ready) {
+              reject(new Error(`GDB process exited with code ${code}`));
+            }
+          });
+        });
+      } finally {
+        session.events.removeListener('stream', onStream);
+      }
+      
+      // Keep GDB responsive while the inferior runs so it can be interrupted
+      try {
+        await this.executeMiCommand(session, '-gdb-set mi-async on');
+      } catch (error) {
+        // GDB before 7.8 only knows the older name of the setting
+        await this.executeMiCommand(session, '-gdb-set target-async on').catch(() => undefined);
+      }
+      
+      return { session, output: outputBuffer };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to get backtrace: ${errorMessage}`
-          }
-        ],
-        isError: true
-      };
+      // Clean up if an error occurs
+      if (activeSessions.has(sessionId)) {
+        const session = activeSessions.get(sessionId)!;
+        session.process.kill();
+        session.rl.close();
+        if (session.programIo) {
+          closeProgramIo(session.programIo);
+        }
+        activeSessions.delete(sessionId);
+      }
+      throw error;
     }
   }
 
-  private async handleGdbPrint(args: any) {
-    const { sessionId, expression } = args;
+  /**
+   * Load symbols, apply the shared library settings and select a remote
+   * target. Returns what GDB printed.
+   */
+  private async connectRemote(
+    session: GdbSession,
+    options: { address: string; extended?: boolean; program?: string; remoteProgram?: string; sysroot?: string; solibSearchPath?: string },
+    timeoutMs?: number
+  ): Promise<string> {
+    if (session.remote) {
+      throw new Error(`Already connected to ${session.remote.address}; use gdb_disconnect first`);
+    }
     
-    if (!activeSessions.has(sessionId)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No active GDB session with ID: ${sessionId}`
-          }
-        ],
-        isError: true
-      };
+    let output = '';
+    if (options.program) {
+      const normalizedPath = session.workingDir && !path.isAbsolute(options.program)
+        ? path.resolve(session.workingDir, options.program)
+        : options.program;
+      session.target = normalizedPath;
+      output += await this.executeGdbCommand(session, `file "${normalizedPath}"`, timeoutMs);
+    }
+    // Library settings must be in place before connecting, when GDB
+    // loads the symbols of what the target has mapped
+    if (options.sysroot !== undefined) {
+      await this.executeMiCommand(session, `-gdb-set sysroot ${miArgument(options.sysroot)}`, timeoutMs);
+    }
+    if (options.solibSearchPath !== undefined) {
+      await this.executeMiCommand(session, `-gdb-set solib-search-path ${miArgument(options.solibSearchPath)}`, timeoutMs);
     }
     
-    const session = activeSessions.get(sessionId)!;
+    const extended = options.extended ?? false;
+    output += await this.executeGdbCommand(session, `target ${extended ? 'extended-remote' : 'remote'} ${options.address}`, timeoutMs);
+    session.remote = { address: options.address, extended };
+    
+    // Reconnecting to a gdbserver an earlier session kept alive makes it
+    // this session's own again
+    const kept = keptGdbservers.get(options.address);
+    if (kept && !session.gdbserver) {
+      keptGdbservers.delete(options.address);
+      kept.io = session.programIo;
+      session.gdbserver = kept;
+    }
     
+    if (options.remoteProgram) {
+      await this.executeMiCommand(session, `-gdb-set remote exec-file ${miArgument(options.remoteProgram)}`, timeoutMs);
+    }
+    return output;
+  }
+  
+  /**
+   * Detach from (or kill) the remote program and close the connection.
+   * 'disconnect' leaves the program stopped under the stub for a later
+   * connection. Returns what GDB printed.
+   */
+  private async disconnectRemote(session: GdbSession, action: 'detach' | 'kill' | 'disconnect', timeoutMs?: number): Promise<string> {
+    let output = '';
+    if (session.state === 'running') {
+      await this.executeMiCommand(session, '-exec-interrupt', timeoutMs);
+      await this.waitForStop(session, timeoutMs);
+    }
+    // A program stopped by a fatal signal can still be detached from or
+    // killed; one that already died has nothing left to detach
+    if (action !== 'disconnect' && this.isInferiorStopped(session)) {
+      // Detaching lets the program carry on under the stub
+      output += await this.executeGdbCommand(session, action === 'kill' ? 'kill' : '-target-detach', timeoutMs);
+    }
     try {
-      const output = await this.executeGdbCommand(session, `print ${expression}`);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Print ${expression}:\n\n${output}`
-          }
-        ]
-      };
+      output += await this.executeGdbCommand(session, '-target-disconnect', timeoutMs);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to print expression: ${errorMessage}`
-          }
-        ],
-        isError: true
-      };
+      // Leaving a plain "target remote" already closes the connection
     }
+    
+    session.remote = undefined;
+    session.state = 'not-started';
+    session.lastStop = undefined;
+    return output;
   }
-
-  private async handleGdbExamine(args: any) {
-    const { sessionId, expression, format = 'x', count = 1 } = args;
+  
+  /**
+   * Disconnect from the session's own gdbserver, if connected, and stop it.
+   * Unless told otherwise, a program gdbserver started is killed and a
+   * process it attached to is detached from and left running.
+   */
+  private async stopGdbserver(session: GdbSession, kill?: boolean, timeoutMs?: number) {
+    const gdbserver = session.gdbserver;
+    if (!gdbserver) {
+      return;
+    }
+    if (session.remote?.address === gdbserver.address) {
+      try {
+        await this.disconnectRemote(session, (kill ?? gdbserver.attachedPid === undefined) ? 'kill' : 'detach', timeoutMs);
+      } catch (error) {
+        // The process is killed below either way
+      }
+    }
+    session.gdbserver = undefined;
+    if (gdbserver.process.exitCode === null) {
+      gdbserver.process.kill();
+    }
+  }
+  
+  /**
+   * Let go of the session's gdbserver when the session ends: stop it, or if
+   * it is kept alive, disconnect with the program left stopped and keep
+   * gdbserver listening for the next session
+   */
+  private async releaseGdbserver(session: GdbSession, timeoutMs?: number) {
+    const gdbserver = session.gdbserver;
+    if (!gdbserver?.keepAlive || gdbserver.process.exitCode !== null) {
+      await this.stopGdbserver(session, undefined, timeoutMs);
+      return;
+    }
+    if (session.remote?.address === gdbserver.address) {
+      try {
+        await this.disconnectRemote(session, 'disconnect', timeoutMs);
+      } catch (error) {
+        // gdbserver keeps listening whether or not GDB said goodbye
+      }
+    }
+    session.gdbserver = undefined;
+    gdbserver.io = undefined;
+    keptGdbservers.set(gdbserver.address, gdbserver);
+  }
+  
+  /**
+   * Load an executable and a core dump into a session
+   */
+  private async loadCoreFile(session: GdbSession, program: string, corePath: string, timeoutMs?: number): Promise<{ fileOutput: string; coreOutput: string }> {
+    // First load the program
+    const fileOutput = await this.executeGdbCommand(session, `file "${program}"`, timeoutMs);
     
-    if (!activeSessions.has(sessionId)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No active GDB session with ID: ${sessionId}`
-          }
-        ],
-        isError: true
-      };
+    // Then load the core file
+    const coreOutput = await this.executeGdbCommand(session, `core-file "${corePath}"`, timeoutMs);
+    
+    return { fileOutput, coreOutput };
+  }
+  
+  /**
+   * Collect the crash triage report for the selected thread of a stopped
+   * program or loaded core. `coreOutput` is what `core-file` printed, which
+   * names the signal for cores. Parts GDB cannot provide (no siginfo in the
+   * core, no mappings, no symbols) are left out rather than failing the report.
+   */
+  private async buildCrashReport(session: GdbSession, coreOutput: string | undefined, frameLimit: number, timeoutMs?: number): Promise<CrashReport> {
+    const threadId = await this.getCurrentThreadId(session, timeoutMs);
+    const scope = `--thread ${threadId} --frame 0 `;
+    const evaluate = async (expression: string): Promise<string | undefined> => {
+      try {
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}${miArgument(expression)}`, timeoutMs);
+        return miString(result.record.results, 'value');
+      } catch (error) {
+        return undefined;
+      }
+    };
+    const evaluateNumber = async (expression: string): Promise<number | undefined> => {
+      const value = Number(await evaluate(expression));
+      return Number.isInteger(value) ? value : undefined;
+    };
+    
+    const frames = await this.listStackFrames(session, threadId, { limit: frameLimit, full: true }, timeoutMs);
+    
+    const signal: CrashSignal = coreOutput ? parseCoreSignal(coreOutput) : {};
+    if (!signal.name && session.lastStop?.signalName) {
+      signal.name = session.lastStop.signalName;
+      signal.meaning = session.lastStop.signalMeaning;
+    }
+    signal.siginfo = await evaluate('$_siginfo');
+    if (signal.siginfo !== undefined) {
+      signal.number = await evaluateNumber('$_siginfo.si_signo');
+      signal.code = await evaluateNumber('$_siginfo.si_code');
+      signal.errno = await evaluateNumber('$_siginfo.si_errno');
+      if (signal.name && ['SIGSEGV', 'SIGBUS', 'SIGILL', 'SIGFPE'].includes(signal.name)) {
+        const [faultAddress] = parsePointer(await evaluate('$_siginfo._sifields._sigfault.si_addr') ?? '');
+        signal.faultAddress = faultAddress;
+      }
     }
     
-    const session = activeSessions.get(sessionId)!;
+    const [pc] = parsePointer(await evaluate('$pc') ?? '');
+    let disassembly: GdbInstruction[] = [];
+    if (pc) {
+      // Disassembling the whole function keeps instruction boundaries right
+      // before $pc; without symbols fall back to what follows it
+      for (const range of ['-a $pc', '-s $pc -e "$pc + 64"']) {
+        try {
+          const result = await this.executeMiCommand(session, `-data-disassemble ${scope}${range} -- 0`, timeoutMs);
+          disassembly = instructionWindow(toInstructions(miList(result.record.results, 'asm_insns')), pc, 8);
+          break;
+        } catch (error) {
+          continue;
+        }
+      }
+    }
     
+    let registers: GdbRegister[] = [];
     try {
-      // Format examine command: x/[count][format] [expression]
-      const command = `x/${count}${format} ${expression}`;
-      const output = await this.executeGdbCommand(session, command);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Examine ${expression} (format: ${format}, count: ${count}):\n\n${output}`
-          }
-        ]
-      };
+      const namesResult = await this.executeMiCommand(session, '-data-list-register-names', timeoutMs);
+      const names = miList(namesResult.record.results, 'register-names');
+      const valuesResult = await this.executeMiCommand(session, `-data-list-register-values ${scope}--skip-unavailable x`, timeoutMs);
+      // Vector registers are unions of every lane layout; leave them out
+      registers = toRegisters(miList(valuesResult.record.results, 'register-values'), names)
+        .filter((entry) => !entry.value.startsWith('{'));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to examine memory: ${errorMessage}`
-          }
-        ],
-        isError: true
-      };
+      registers = [];
     }
-  }
-
-  private async handleGdbInfoRegisters(args: any) {
-    const { sessionId, register } = args;
     
-    if (!activeSessions.has(sessionId)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No active GDB session with ID: ${sessionId}`
-          }
-        ],
-        isError: true
-      };
+    let faultRegion: GdbMemoryRegion | undefined;
+    if (signal.faultAddress) {
+      const { regions } = await this.readMemoryMap(session, timeoutMs);
+      faultRegion = findMemoryRegion(regions, signal.faultAddress);
     }
     
-    const session = activeSessions.get(sessionId)!;
-    
+    const signature = stackSignature(frames);
+    return {
+      signal,
+      threadId,
+      frames,
+      pc,
+      disassembly,
+      registers,
+      faultRegion,
+      stackHash: signature.hash,
+      signatureFrames: signature.frames
+    };
+  }
+  
+  /**
+   * Run a stepping command up to `count` times, stopping early when a stop
+   * is anything but the end of a step (breakpoint, signal, exit)
+   */
+  private async runSteps(session: GdbSession, command: string, count: number, timeoutMs?: number): Promise<{ stop?: GdbStopEvent; steps: number }> {
+    const total = Math.max(1, Math.floor(count));
+    let stop: GdbStopEvent | undefined;
+    let steps = 0;
+    while (steps < total) {
+      ({ stop } = await this.executeExecCommand(session, command, timeoutMs));
+      steps++;
+      if (!stop || stop.reason !== 'end-stepping-range' || session.state !== 'stopped') {
+        break;
+      }
+    }
+    return { stop, steps };
+  }
+  
+  /**
+   * Read the memory regions of the target: its mappings where the target
+   * can report them, otherwise the sections of the loaded files
+   */
+  private async readMemoryMap(session: GdbSession, timeoutMs?: number): Promise<{ source: 'mappings' | 'files'; regions: GdbMemoryRegion[] }> {
     try {
-      // Build info registers command, optionally with specific register
-      const command = register ? `info registers ${register}` : `info registers`;
-      const output = await this.executeGdbCommand(session, command);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Register info${register ? ` for ${register}` : ''}:\n\n${output}`
-          }
-        ]
-      };
+      const regions = parseMemoryRegions(await this.executeGdbCommand(session, 'info proc mappings', timeoutMs));
+      if (regions.length > 0) {
+        return { source: 'mappings', regions };
+      }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to get register info: ${errorMessage}`
-          }
-        ],
-        isError: true
-      };
+      // Remote and some core targets cannot report mappings
     }
+    return { source: 'files', regions: parseMemoryRegions(await this.executeGdbCommand(session, 'info files', timeoutMs)) };
   }
-
-  private async handleGdbListSource(args: any) {
-    const { sessionId, location, lineCount = 10 } = args;
-    
-    if (!activeSessions.has(sessionId)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `No active GDB session with ID: ${sessionId}`
-          }
-        ],
-        isError: true
-      };
+  
+  /**
+   * List the shared libraries of the target
+   */
+  private async listSharedLibraries(session: GdbSession, timeoutMs?: number): Promise<GdbSharedLibrary[]> {
+    let libraries: GdbSharedLibrary[];
+    try {
+      const result = await this.executeMiCommand(session, '-file-list-shared-libraries', timeoutMs);
+      libraries = toSharedLibraries(miList(result.record.results, 'shared-libraries'));
+    } catch (error) {
+      // GDB before 8.1 has no MI command for this
+      libraries = parseSharedLibraries(await this.executeGdbCommand(session, 'info sharedlibrary', timeoutMs));
     }
+    return libraries;
+  }
+  
+  /**
+   * Resolve an address to the nearest symbol, its section, the mapping it
+   * falls into and the shared library that contains it
+   */
+  private async addressInfo(session: GdbSession, address: string, timeoutMs?: number): Promise<GdbAddressInfo> {
+    const value = await this.resolveAddress(session, address, timeoutMs);
+    const hex = `0x${value.toString(16)}`;
+    const info: GdbAddressInfo = { address: hex };
     
-    const session = activeSessions.get(sessionId)!;
-    
-    try {
-      // Build list command with optional location and line count
-      const command = location ? `list ${location}` : 'list';
-      const output = await this.executeGdbCommand(session, command);
-      
-      // Parse output to extract file and line information
-      const sourceInfo = await this.parseSourceInfoFromGdbOutput(session, output);
-      
-      // If we got valid source information, return it in a structured format
-      if (sourceInfo.filePath) {
-        return {
-          debug: {
-            sourceInfo
-          },
-          content: [
-            {
-              type: 'text',
-              text: `Source code ${location ? `at ${location}` : 'at current location'}:\n\n${output}`
-            },
-            {
-              type: 'source_location',
-              filePath: sourceInfo.filePath,
-              lineStart: sourceInfo.lineStart, 
-              vscodeUri: `vscode://file${sourceInfo.filePath}:${sourceInfo.lineStart}`,
-              lineEnd: sourceInfo.lineEnd,
-              currentLine: sourceInfo.currentLine
-            }
-          ]
-        };
+    const symbol = parseSymbolInfo(await this.executeGdbCommand(session, `info symbol ${hex}`, timeoutMs));
+    if (symbol) {
+      info.symbol = symbol.symbol;
+      info.offset = symbol.offset;
+      info.section = symbol.section;
+      if (symbol.objfile) info.objfile = symbol.objfile;
+    }
+    
+    const { source, regions } = await this.readMemoryMap(session, timeoutMs);
+    const region = findMemoryRegion(regions, hex);
+    if (region) {
+      info.region = region;
+      if (!info.section && region.section) info.section = region.section;
+    }
+    // Addresses without a symbol can still be placed in a section
+    if (!info.section && source === 'mappings') {
+      const section = findMemoryRegion(parseMemoryRegions(await this.executeGdbCommand(session, 'info files', timeoutMs)), hex);
+      if (section?.section) info.section = section.section;
+    }
+    
+    const libraries = await this.listSharedLibraries(session, timeoutMs);
+    // The ranges GDB reports cover only the text of a library, so fall back
+    // to the file behind the mapping for its data
+    const objfile = info.objfile ?? region?.objfile;
+    const library = libraries.find((candidate) => candidate.start && candidate.end &&
+      BigInt(candidate.start) <= value && value < BigInt(candidate.end)) ??
+      (objfile ? libraries.find((candidate) => isSameFile(objfile, candidate.path)) : undefined);
+    if (library) info.library = library.path;
+    
+    return info;
+  }
+  
+  /**
+   * Evaluate an address expression to a number, so it can be placed in
+   * commands without any quoting concerns
+   */
+  private async resolveAddress(session: GdbSession, expression: string, timeoutMs?: number): Promise<bigint> {
+    const result = await this.executeMiCommand(session, `-data-evaluate-expression ${miArgument(`(unsigned long long) (${expression})`)}`, timeoutMs);
+    const value = miString(result.record.results, 'value') ?? '';
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`Not an address: ${expression} = ${value}`);
+    }
+    return BigInt(value);
+  }
+  
+  /**
+   * Capture a frame of the selected thread and its locals before a step.
+   * Returns undefined when there is no such frame (e.g. not started yet).
+   */
+  private async snapshotFrame(session: GdbSession, level: number, timeoutMs?: number): Promise<FrameSnapshot | undefined> {
+    if (!this.isInferiorStopped(session)) {
+      return undefined;
+    }
+    try {
+      const threadId = await this.getCurrentThreadId(session, timeoutMs);
+      const result = await this.executeMiCommand(session, `-stack-list-frames --thread ${threadId} ${level} ${level}`, timeoutMs);
+      const [frame] = toFrames(miList(result.record.results, 'stack'));
+      if (!frame) {
+        return undefined;
       }
-      
-      // If we couldn't extract source information, just return the text output
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Source code ${location ? `at ${location}` : 'at current location'}:\n\n${output}`
-          }
-        ]
-      };
+      const locals = await this.listFrameVariables(session, threadId, level, '--simple-values', timeoutMs);
+      return { frame, locals };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to list source: ${errorMessage}`
-          }
-        ],
-        isError: true
-      };
+      return undefined;
     }
   }
-
+  
   /**
-   * Parse GDB output to extract source code file path and line range
+   * Describe where a step stopped: the frame, the source around it and how
+   * its locals differ from `before` when still in the same function
    */
-  private async parseSourceInfoFromGdbOutput(session: GdbSession, output: string): Promise<{ filePath: string, lineStart: number, lineEnd: number, currentLine: number }> {
-    // Default return value when parsing fails
-    const defaultResult = { filePath: '', lineStart: 0, lineEnd: 0, currentLine: 0 };
+  private async buildStopContext(session: GdbSession, stop: GdbStopEvent | undefined, before: FrameSnapshot | undefined, timeoutMs?: number): Promise<StopContext> {
+    const context: StopContext = { stop, frame: stop?.frame, locals: [], frameChanged: true, changedLocals: [] };
+    if (stop?.returnValue) {
+      context.returnValue = stop.returnValue;
+    }
+    if (!this.isInferiorStopped(session) || !stop?.frame) {
+      return context;
+    }
     
-    // Check if the output contains source lines
-    if (!output.trim()) {
-      return defaultResult;
+    if (stop.frame.fullname && stop.frame.line !== undefined) {
+      context.source = readSourceSnippet(stop.frame.fullname, stop.frame.line);
     }
     
     try {
-      // First, get the current location using 'info line'
-      // This gives us both the file and the current line in a reliable way
-      const infoLineOutput = await this.executeGdbCommand(session, 'info line');
-      
-      // Parse the file path and line number from info line output
-      // Example output: "Line 17 of \"crash.c\" starts at address 0x1149 <main+0> and ends at 0x1155 <main+12>."
-      const infoLineMatch = infoLineOutput.match(/Line (\d+) of "([^"]+)"/);
-      
-      let filePath = '';
-      let currentLine = 0;
-      
-      if (infoLineMatch) {
-        currentLine = parseInt(infoLineMatch[1], 10);
-        filePath = infoLineMatch[2];
-      } else {
-        // Fallback to info source if info line doesn't work
-        const infoOutput = await this.executeGdbCommand(session, 'info source');
-        const filePathMatch = infoOutput.match(/Current source file is (.*?)(?: |$)/);
-        filePath = filePathMatch ? filePathMatch[1] : '';
+      const threadId = stop.threadId ?? await this.getCurrentThreadId(session, timeoutMs);
+      context.locals = await this.listFrameVariables(session, threadId, 0, '--simple-values', timeoutMs);
+    } catch (error) {
+      // Frames without debug info have no locals to list
+      context.locals = [];
+    }
+    if (before && isSameFunction(before.frame, stop.frame)) {
+      context.frameChanged = false;
+      context.changedLocals = diffLocals(before.locals, context.locals);
+    }
+    return context;
+  }
+  
+  /**
+   * Evaluate every watch expression in the selected frame and compare it
+   * with its value at the previous stop. Expressions that cannot be
+   * evaluated here (e.g. out of scope) are reported with their error.
+   */
+  private async evaluateWatchExpressions(session: GdbSession, timeoutMs?: number): Promise<WatchExpressionValue[]> {
+    // Each watch is evaluated once per stop, so "changed" always compares
+    // with the previous stop however many tools report this one
+    const stopIndex = session.stopEventCount;
+    return Promise.all(session.watchExpressions.map((watch) => {
+      if (watch.evaluation?.stopIndex !== stopIndex) {
+        watch.evaluation = { stopIndex, result: this.evaluateWatchExpression(session, watch, timeoutMs) };
       }
-      
-      // Now extract the line numbers from the list output
-      // Format for GDB list output is usually line numbers followed by the code:
-      // 10     void function_with_args(int a, int b) {
-      const lines = output.split('\n').filter(line => line.trim());
-      
-      // Detect if there's source code in the output
-      // Look for lines that start with numbers
-      const sourceLines = lines.filter(line => /^\s*\d+\s+/.test(line));
-      
-      if (sourceLines.length === 0) {
-        return defaultResult;
+      return watch.evaluation.result;
+    }));
+  }
+  
+  private async evaluateWatchExpression(session: GdbSession, watch: WatchExpression, timeoutMs?: number): Promise<WatchExpressionValue> {
+    const entry: WatchExpressionValue = { id: watch.id, expression: watch.expression, status: 'new' };
+    try {
+      const result = await this.executeMiCommand(session, `-data-evaluate-expression ${miArgument(watch.expression)}`, timeoutMs);
+      entry.value = miString(result.record.results, 'value') ?? '';
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+    
+    const evaluated = watch.lastValue !== undefined || watch.lastError !== undefined;
+    if (evaluated) {
+      entry.status = entry.value === watch.lastValue && entry.error === watch.lastError ? 'unchanged' : 'changed';
+      if (watch.lastValue !== undefined) {
+        entry.previousValue = watch.lastValue;
       }
-      
-      // Extract line numbers from the first and last source lines
-      const firstLineMatch = sourceLines[0].match(/^\s*(\d+)\s+/);
-      const lastLineMatch = sourceLines[sourceLines.length - 1].match(/^\s*(\d+)\s+/);
-      
-      if (firstLineMatch && lastLineMatch) {
-        return {
-          filePath,
-          lineStart: parseInt(firstLineMatch[1], 10),
-          lineEnd: parseInt(lastLineMatch[1], 10),
-          currentLine
-        };
+    }
+    watch.lastValue = entry.value;
+    watch.lastError = entry.error;
+    return entry;
+  }
+  
+  /**
+   * Evaluate the watch expressions at a stop no tool call may report, e.g.
+   * one reached while the client is not waiting. Runs through the queue so
+   * it never interleaves with another call's commands.
+   */
+  private scheduleWatchEvaluation(session: GdbSession) {
+    const stopIndex = session.stopEventCount;
+    this.runQueued(session, 'watch expressions', new AbortController().signal, async () => {
+      if (session.stopEventCount === stopIndex && this.isInferiorStopped(session)) {
+        await this.evaluateWatchExpressions(session);
+      }
+    }).catch((error) => {
+      // Failures are recorded per expression; this is the session ending
+    });
+  }
+  
+  /**
+   * Whether the inferior is stopped with a live process to inspect, which
+   * includes stops for a fatal signal
+   */
+  private isInferiorStopped(session: GdbSession): boolean {
+    return session.state === 'stopped' || (session.state === 'crashed' && session.lastStop?.reason === 'signal-received');
+  }
+  
+  /**
+   * Watch expression values for a tool response, with their text section
+   * ('' when there are none or the program is no longer stopped)
+   */
+  private async collectWatchExpressions(session: GdbSession, timeoutMs?: number): Promise<{ values: WatchExpressionValue[]; text: string }> {
+    if (session.watchExpressions.length === 0 || !this.isInferiorStopped(session)) {
+      return { values: [], text: '' };
+    }
+    const values = await this.evaluateWatchExpressions(session, timeoutMs);
+    const lines = values.map((entry) => {
+      const value = entry.error !== undefined ? `<error: ${entry.error}>` : entry.value;
+      const marker = entry.status === 'changed'
+        ? ` (changed${entry.previousValue !== undefined ? `, was ${entry.previousValue}` : ''})`
+        : entry.status === 'new' ? ' (new)' : '';
+      return `${entry.status === 'changed' ? '*' : ' '} ${entry.id}: ${entry.expression} = ${value}${marker}`;
+    });
+    return { values, text: `\n\nWatch expressions:\n${lines.join('\n')}` };
+  }
+  
+  /**
+   * Fill in the address and owner of the mutex a thread waits on. Owners are
+   * read from glibc's pthread_mutex_t, which records the LWP of the holder
+   * in __data.__owner; failures leave the fields unset.
+   */
+  private async resolveMutexOwner(session: GdbSession, threadId: string, wait: ThreadWait, timeoutMs?: number) {
+    const scope = `--thread ${threadId} --frame ${wait.frameLevel} `;
+    try {
+      if (wait.object === undefined) {
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}mutex`, timeoutMs);
+        const [object, symbol] = parsePointer(miString(result.record.results, 'value') ?? '');
+        if (object) wait.object = object;
+        if (symbol) wait.symbol = symbol;
+      }
+      if (wait.object !== undefined) {
+        const expression = `((pthread_mutex_t *) ${wait.object})->__data.__owner`;
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}${miArgument(expression)}`, timeoutMs);
+        const owner = Number(miString(result.record.results, 'value'));
+        if (Number.isInteger(owner) && owner > 0) {
+          wait.ownerLwp = owner;
+        }
       }
     } catch (e) {
-      // If there's any error in parsing, continue with default result
+      // Without debug info for glibc the mutex cannot be inspected
+    }
+  }
+  
+  /**
+   * List arguments and locals of one frame without changing the selected frame
+   */
+  private async listFrameVariables(session: GdbSession, threadId: string, level: number, printValues: string, timeoutMs?: number) {
+    const result = await this.executeMiCommand(session, `-stack-list-variables --thread ${threadId} --frame ${level} ${printValues}`, timeoutMs);
+    return toVariables(miList(result.record.results, 'variables'));
+  }
+  
+  /**
+   * Dispatch one line of GDB/MI output to the command that owns it or to the
+   * session's out-of-band event stream
+   */
+  private handleGdbOutputLine(session: GdbSession, line: string) {
+    const record = parseMiLine(line);
+    
+    if (!record) {
+      // Not MI output, most likely the inferior writing to GDB's terminal
+      if (line.trim()) {
+        this.routeStreamRecord(session, { type: 'stream', kind: 'target', text: line + '\n' });
+      }
+      return;
     }
     
-    return defaultResult;
+    switch (record.type) {
+      case 'prompt':
+        session.events.emit('prompt');
+        break;
+      case 'stream':
+        this.routeStreamRecord(session, record);
+        break;
+      case 'async':
+        if (record.kind === 'exec') {
+          this.trackExecutionState(session, record);
+        } else if (record.kind === 'notify') {
+          this.trackInferiorExit(session, record);
+          this.trackBreakpointDeletion(session, record);
+        }
+        session.events.emit(record.kind, record);
+        break;
+      case 'result': {
+        // Results without a token can only come from a command we did not
+        // tag, so hand them to the oldest outstanding command
+        const pending = record.token !== undefined
+          ? session.pendingCommands.get(record.token)
+          : session.pendingCommands.values().next().value;
+        if (!pending) {
+          break;
+        }
+        session.pendingCommands.delete(pending.token);
+        
+        // Mark the session running before the caller sees ^running, since
+        // the matching *stopped may be dispatched before it gets to wait
+        if (record.resultClass === 'running') {
+          session.state = 'running';
+          session.lastStop = undefined;
+        }
+        
+        const result: GdbCommandResult = {
+          record,
+          console: this.joinStreams(pending.streams, 'console'),
+          target: this.joinStreams(pending.streams, 'target'),
+          log: this.joinStreams(pending.streams, 'log')
+        };
+        
+        if (record.resultClass === 'error') {
+          pending.reject(new Error(miString(record.results, 'msg') || result.log.trim() || `GDB command failed: ${pending.command}`));
+        } else {
+          pending.resolve(result);
+        }
+        break;
+      }
+    }
   }
-
+  
+  /**
+   * Handle text GDB wrote to its stderr
+   */
+  private handleGdbStderr(session: GdbSession, text: string) {
+    this.routeStreamRecord(session, { type: 'stream', kind: 'log', text: `[stderr] ${text}` });
+  }
+  
+  /**
+   * Stream records are synchronous output of the command GDB is currently
+   * executing, which is always the oldest one still pending
+   */
+  private routeStreamRecord(session: GdbSession, record: MiStreamRecord) {
+    if (record.kind === 'console' && record.text.includes('\x1fmcp-logpoint ')) {
+      record = { ...record, text: this.extractDprintfHits(session, record.text) };
+      if (!record.text) {
+        return;
+      }
+    }
+    
+    const pending = session.pendingCommands.values().next().value;
+    if (pending) {
+      pending.streams.push(record);
+    } else {
+      session.events.emit('stream', record);
+    }
+  }
+  
+  private joinStreams(streams: MiStreamRecord[], kind: MiStreamRecord['kind']): string {
+    return streams.filter((stream) => stream.kind === kind).map((stream) => stream.text).join('');
+  }
+  
+  /**
+   * Fail every command still waiting for a result record
+   */
+  private rejectPendingCommands(session: GdbSession, error: Error) {
+    for (const pending of session.pendingCommands.values()) {
+      pending.reject(error);
+    }
+    session.pendingCommands.clear();
+  }
+  
   /**
-   * Execute a GDB command and wait for the response
+   * Execute a GDB command (MI or CLI) and wait for its own result record
    */
-  private executeGdbCommand(session: GdbSession, command: string): Promise<string> {
-    return new Promise<string>((resolve, reject) => {
+  private executeMiCommand(session: GdbSession, command: string, timeoutMs?: number): Promise<GdbCommandResult> {
+    const limit = timeoutMs ?? session.defaultTimeoutMs;
+    
+    return new Promise<GdbCommandResult>((resolve, reject) => {
       if (!session.ready) {
         reject(new Error('GDB session is not ready'));
         return;
       }
       
-      // Write command to GDB's stdin
-      if (session.process.stdin) {
-        session.process.stdin.write(command + '\n');
-      } else {
+      if (!session.process.stdin) {
         reject(new Error('GDB stdin is not available'));
         return;
       }
       
-      let output = '';
-      let responseComplete = false;
-      
-      // Create a one-time event handler for GDB output
-      const onLine = (line: string) => {
-        output += line + '\n';
-        
-        // Check if this line indicates the end of the GDB response
-        if (line.includes('(gdb)') || line.includes('^done') || line.includes('^error')) {
-          responseComplete = true;
-          
-          // If we've received the complete response, resolve the promise
-          if (responseComplete) {
-            // Remove the listener to avoid memory leaks
-            session.rl.removeListener('line', onLine);
-            resolve(output);
-          }
-        }
-      };
-      
-      // Add the line handler to the readline interface
-      session.rl.on('line', onLine);
+      const token = session.nextToken++;
+      const streams: MiStreamRecord[] = [];
       
-      // Set a timeout to prevent hanging
+      // Set a timeout to prevent hanging; a late result record is ignored
+      // because nothing is waiting for its token any more
       const timeout = setTimeout(() => {
-        session.rl.removeListener('line', onLine);
-        reject(new Error('GDB command timed out'));
-      }, 10000); // 10 second timeout
+        session.pendingCommands.delete(token);
+        const partialOutput = streams.map((stream) => stream.text).join('');
+        reject(new Error(`GDB command timed out after ${limit} ms: ${command}${partialOutput ? `\n\nPartial output:\n${partialOutput}` : ''}`));
+      }, limit);
+      timeout.unref();
       
-      // Handle GDB errors
-      const errorHandler = (data: Buffer) => {
-        const errorText = data.toString();
-        output += `[stderr] ${errorText}\n`;
-      };
+      session.pendingCommands.set(token, {
+        token,
+        command,
+        streams,
+        resolve: (result) => {
+          clearTimeout(timeout);
+          resolve(result);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      });
       
-      // Add error handler
-      if (session.process.stderr) {
-        session.process.stderr.once('data', errorHandler);
+      // Prefix the command with its token so the result record can be matched
+      session.process.stdin.write(`${token}${command}\n`);
+    });
+  }
+  
+  /**
+   * Execute a GDB command and return its output as text
+   */
+  private async executeGdbCommand(session: GdbSession, command: string, timeoutMs?: number): Promise<string> {
+    const result = await this.executeMiCommand(session, command, timeoutMs);
+    return this.formatCommandResult(result);
+  }
+  
+  /**
+   * Update the session's execution state from an exec async record
+   */
+  private trackExecutionState(session: GdbSession, record: MiAsyncRecord) {
+    if (record.asyncClass === 'running') {
+      session.state = 'running';
+      session.lastStop = undefined;
+    } else if (record.asyncClass === 'stopped') {
+      const stop = toStopEvent(record.results);
+      const logpoint = stop.reason === 'breakpoint-hit' && stop.breakpointNumber
+        ? session.logpoints.get(stop.breakpointNumber)
+        : undefined;
+      if (logpoint && session.activeCall === undefined) {
+        // Hold the queue while the hit is collected, so no call can send
+        // commands to the inferior before it is resumed
+        this.runQueued(session, 'logpoint', new AbortController().signal, () => this.collectLogpointHit(session, logpoint, stop, true))
+          .catch((error) => {
+            // Only fails when the session ends
+          });
+      } else if (logpoint) {
+        // The active call either waits for this stop and has sent nothing
+        // since, or only inspects the running inferior; a step ends at the
+        // logpoint, anything else is resumed
+        this.collectLogpointHit(session, logpoint, stop, resumesPastLogpoint(session.activeCall));
+      } else {
+        this.recordStop(session, stop);
+      }
+    }
+  }
+  
+  /**
+   * Evaluate a breakpoint logpoint's expressions at the current stop and
+   * record the sample, then either resume the inferior, in which case
+   * clients never see the stop, or report the stop as usual
+   */
+  private async collectLogpointHit(session: GdbSession, logpoint: Logpoint, stop: GdbStopEvent, resume: boolean) {
+    const values: Record<string, string> = {};
+    const errors: Record<string, string> = {};
+    const scope = stop.threadId ? `--thread ${stop.threadId} --frame 0 ` : '';
+    
+    for (const expression of logpoint.expressions) {
+      try {
+        const result = await this.executeMiCommand(session, `-data-evaluate-expression ${scope}${miArgument(expression)}`);
+        values[expression] = miString(result.record.results, 'value') ?? '';
+      } catch (error) {
+        errors[expression] = error instanceof Error ? error.message : String(error);
+      }
+    }
+    
+    this.addLogpointHit(logpoint, {
+      threadId: stop.threadId,
+      frame: stop.frame ? { func: stop.frame.func, file: stop.frame.file, line: stop.frame.line } : undefined,
+      values,
+      ...(Object.keys(errors).length > 0 ? { errors } : {})
+    });
+    
+    if (!resume) {
+      this.recordStop(session, stop);
+      return;
+    }
+    try {
+      await this.executeMiCommand(session, '-exec-continue');
+    } catch (error) {
+      // Could not resume, so let clients see the stop after all
+      this.recordStop(session, stop);
+    }
+  }
+  
+  /**
+   * Record the hits printed by dprintf logpoints and return the rest of the
+   * console text
+   */
+  private extractDprintfHits(session: GdbSession, text: string): string {
+    return text.replace(LOGPOINT_MARKER, (marker, key: string, threadId: string, body: string) => {
+      const logpoint = session.logpoints.get(`d${key}`);
+      if (!logpoint) {
+        return marker;
+      }
+      const parts = body.split('\x1e');
+      const values: Record<string, string> = {};
+      logpoint.expressions.forEach((expression, index) => {
+        values[expression] = parts[index] ?? '';
+      });
+      this.addLogpointHit(logpoint, { threadId, values });
+      return '';
+    });
+  }
+  
+  private addLogpointHit(logpoint: Logpoint, hit: Omit<LogpointHit, 'index' | 'timestamp'>) {
+    logpoint.hits.push({ index: logpoint.totalHits++, timestamp: new Date().toISOString(), ...hit });
+    if (logpoint.hits.length > MAX_LOGPOINT_HITS) {
+      logpoint.hits.shift();
+    }
+  }
+  
+  /**
+   * Update the execution state from an inferior exit notification. A
+   * running inferior that exits is reported by a *stopped record right
+   * after this one, so only exits without one are recorded here: "kill" or
+   * a detach while stopped, or a remote target that went away.
+   */
+  private trackInferiorExit(session: GdbSession, record: MiAsyncRecord) {
+    if (record.asyncClass !== 'thread-group-exited') {
+      return;
+    }
+    const exitCode = parseExitCode(miString(record.results, 'exit-code'));
+    const stop: GdbStopEvent = { reason: 'exited', ...(exitCode !== undefined ? { exitCode } : {}) };
+    
+    if (session.state === 'stopped') {
+      this.recordStop(session, stop, true);
+    } else if (session.state === 'running') {
+      const stopCount = session.stopEventCount;
+      const timer = setTimeout(() => {
+        if (session.state === 'running' && session.stopEventCount === stopCount) {
+          this.recordStop(session, stop, true);
+        }
+      }, INFERRED_EXIT_DELAY_MS);
+      timer.unref();
+    }
+  }
+  
+  /**
+   * Forget logpoints whose breakpoint GDB deleted on its own or through a
+   * CLI command; deletions by MI commands are not announced, so those
+   * callers forget the logpoints themselves
+   */
+  private trackBreakpointDeletion(session: GdbSession, record: MiAsyncRecord) {
+    if (record.asyncClass === 'breakpoint-deleted') {
+      const id = miString(record.results, 'id');
+      if (id !== undefined) {
+        this.forgetLogpoints(session, [id]);
+      }
+    }
+  }
+  
+  /**
+   * Drop the logpoints of deleted breakpoints, so a breakpoint that later
+   * gets the same number is not taken for a logpoint
+   */
+  private forgetLogpoints(session: GdbSession, numbers: string[]) {
+    for (const [key, logpoint] of session.logpoints) {
+      if (numbers.includes(logpoint.number)) {
+        session.logpoints.delete(key);
+      }
+    }
+  }
+  
+  /**
+   * Derive the new execution state from a stop event and append it to the
+   * session's bounded history
+   */
+  private recordStop(session: GdbSession, stop: GdbStopEvent, inferred = false) {
+    if (stop.reason.startsWith('exited-signalled')) {
+      session.state = 'crashed';
+    } else if (stop.reason.startsWith('exited')) {
+      session.state = 'exited';
+    } else if (stop.reason === 'signal-received' && stop.signalName && FATAL_SIGNALS.has(stop.signalName)) {
+      session.state = 'crashed';
+    } else {
+      session.state = 'stopped';
+    }
+    
+    session.lastStop = stop;
+    
+    // A real exit record replaces an exit that was only inferred
+    const previous = session.stopEvents[session.stopEvents.length - 1];
+    if (previous?.inferred && stop.reason.startsWith('exited')) {
+      session.stopEvents.pop();
+      session.stopEventCount--;
+    }
+    session.stopEvents.push({
+      ...stop,
+      index: session.stopEventCount++,
+      timestamp: new Date().toISOString(),
+      state: session.state,
+      ...(inferred ? { inferred } : {})
+    });
+    if (session.stopEvents.length > MAX_STOP_EVENTS) {
+      session.stopEvents.shift();
+    }
+    
+    if (session.watchExpressions.length > 0 && this.isInferiorStopped(session)) {
+      this.scheduleWatchEvaluation(session);
+    }
+    session.events.emit('stopped', stop);
+  }
+  
+  /**
+   * Wait for the inferior to stop, or return the stop it is already in
+   */
+  private waitForStop(session: GdbSession, timeoutMs?: number): Promise<GdbStopEvent> {
+    const limit = timeoutMs ?? session.defaultTimeoutMs;
+    return new Promise<GdbStopEvent>((resolve, reject) => {
+      if (session.state !== 'running') {
+        if (session.lastStop) {
+          resolve(session.lastStop);
+        } else {
+          reject(new Error('The program is not being run'));
+        }
+        return;
       }
       
-      // Clean up event handlers when the timeout expires
+      const onStopped = (stop: GdbStopEvent) => {
+        clearTimeout(timeout);
+        resolve(stop);
+      };
+      const timeout = setTimeout(() => {
+        session.events.removeListener('stopped', onStopped);
+        reject(new Error(`Timed out after ${limit} ms waiting for the program to stop; it is still running. Use gdb_wait_for_stop or gdb_interrupt`));
+      }, limit);
       timeout.unref();
+      
+      session.events.once('stopped', onStopped);
     });
   }
-
+  
+  /**
+   * Execute an execution-control command (-exec-continue, -exec-step, ...)
+   * and, unless told not to, wait for the inferior to stop again
+   */
+  private async executeExecCommand(session: GdbSession, command: string, timeoutMs?: number, waitForStop = true): Promise<ExecResult> {
+    const result = await this.executeMiCommand(session, command, timeoutMs);
+    
+    if (result.record.resultClass !== 'running' || !waitForStop) {
+      return { output: this.formatCommandResult(result) };
+    }
+    
+    const stop = await this.waitForStop(session, timeoutMs);
+    return {
+      output: `${this.formatCommandResult(result)}${describeStopEvent(stop)}\n`,
+      stop
+    };
+  }
+  
+  /**
+   * Render a command result as the text GDB printed plus any MI results
+   */
+  private formatCommandResult(result: GdbCommandResult): string {
+    let output = result.console + result.target + result.log;
+    if (Object.keys(result.record.results).length > 0) {
+      output += JSON.stringify(result.record.results, null, 2) + '\n';
+    }
+    return output;
+  }
+  
   /**
    * Terminate a GDB session
    */
-  private async terminateGdbSession(sessionId: string): Promise<void> {
+  private async terminateGdbSession(sessionId: string, timeoutMs?: number): Promise<void> {
     if (!activeSessions.has(sessionId)) {
       throw new Error(`No active GDB session with ID: ${sessionId}`);
     }
     
     const session = activeSessions.get(sessionId)!;
     
-    // Send quit command to GDB
+    // Nothing queued behind this point will ever run
+    for (const queued of session.callQueue.splice(0)) {
+      queued.cancel(new Error(`GDB session terminated: ${sessionId}`));
+    }
+    
+    // A managed gdbserver lives only as long as its session unless kept alive
+    await this.releaseGdbserver(session, timeoutMs);
+    
+    // Ask GDB to exit
     try {
-      await this.executeGdbCommand(session, 'quit');
+      await this.executeGdbCommand(session, '-gdb-exit', timeoutMs);
     } catch (error) {
       // Ignore errors from quit command, we'll force kill if needed
     }
@@ -1402,6 +7321,11 @@ class GdbServer {
     // Close the readline interface
     session.rl.close();
     
+    if (session.programIo) {
+      closeProgramIo(session.programIo);
+    }
+    session.logpoints.clear();
+    
     // Remove from active sessions
     activeSessions.delete(sessionId);
   }
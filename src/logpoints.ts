@@ -0,0 +1,29 @@
+/**
+ * When a breakpoint logpoint hit is resumed past rather than reported.
+ *
+ * A logpoint samples its expressions and lets the inferior carry on, so
+ * clients never see it stop there. The exception is a step: a step that
+ * reaches a logpoint ends there, as it would at any breakpoint.
+ */
+
+// Tools whose command ends at the next breakpoint it reaches. gdb_command
+// counts as one since the command it runs could be a step.
+export const STEPPING_TOOLS = new Set([
+  'gdb_step',
+  'gdb_next',
+  'gdb_finish',
+  'gdb_until',
+  'gdb_advance',
+  'gdb_step_until_condition',
+  'gdb_command'
+]);
+
+/**
+ * Whether a logpoint hit is resumed past given the tool call active when
+ * it was hit, if any. Any call other than a step, such as
+ * gdb_wait_for_stop after an async continue or an inspection while the
+ * inferior runs in the background, is waiting for a real stop.
+ */
+export function resumesPastLogpoint(activeCall: string | undefined): boolean {
+  return activeCall === undefined || !STEPPING_TOOLS.has(activeCall);
+}
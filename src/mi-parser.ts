@@ -0,0 +1,341 @@
+/**
+ * Parser for the GDB/MI output syntax.
+ *
+ * See "GDB/MI Output Syntax" in the GDB manual. Each line printed by GDB in
+ * `--interpreter=mi` mode is one of:
+ *   - a result record:       [token] "^" class ("," result)*
+ *   - an async record:       [token] ("*" | "+" | "=") class ("," result)*
+ *   - a stream record:       ("~" | "@" | "&") c-string
+ *   - the prompt terminator: "(gdb)"
+ */
+
+// A tuple is an object, a list is an array, a const is a string
+export type MiValue = string | MiTuple | MiValue[];
+
+export interface MiTuple {
+  [key: string]: MiValue;
+}
+
+export type MiResultClass = 'done' | 'running' | 'connected' | 'error' | 'exit';
+
+export interface MiResultRecord {
+  type: 'result';
+  token?: number;
+  resultClass: MiResultClass;
+  results: MiTuple;
+}
+
+export type MiAsyncKind = 'exec' | 'status' | 'notify';
+
+export interface MiAsyncRecord {
+  type: 'async';
+  kind: MiAsyncKind;
+  token?: number;
+  asyncClass: string;
+  results: MiTuple;
+}
+
+export type MiStreamKind = 'console' | 'target' | 'log';
+
+export interface MiStreamRecord {
+  type: 'stream';
+  kind: MiStreamKind;
+  text: string;
+}
+
+export interface MiPromptRecord {
+  type: 'prompt';
+}
+
+export type MiRecord = MiResultRecord | MiAsyncRecord | MiStreamRecord | MiPromptRecord;
+
+const ASYNC_KINDS: Record<string, MiAsyncKind> = {
+  '*': 'exec',
+  '+': 'status',
+  '=': 'notify'
+};
+
+const STREAM_KINDS: Record<string, MiStreamKind> = {
+  '~': 'console',
+  '@': 'target',
+  '&': 'log'
+};
+
+class MiSyntaxError extends Error {
+  constructor(message: string, input: string, position: number) {
+    super(`${message} at column ${position}: ${input}`);
+    this.name = 'MiSyntaxError';
+  }
+}
+
+/**
+ * Cursor over a single line of MI output
+ */
+class MiScanner {
+  position = 0;
+
+  constructor(readonly input: string) {}
+
+  peek(): string {
+    return this.input[this.position];
+  }
+
+  atEnd(): boolean {
+    return this.position >= this.input.length;
+  }
+
+  expect(char: string) {
+    if (this.input[this.position] !== char) {
+      throw new MiSyntaxError(`Expected '${char}'`, this.input, this.position);
+    }
+    this.position++;
+  }
+
+  readWhile(predicate: (char: string) => boolean): string {
+    const start = this.position;
+    while (!this.atEnd() && predicate(this.input[this.position])) {
+      this.position++;
+    }
+    return this.input.slice(start, this.position);
+  }
+
+  readCString(): string {
+    this.expect('"');
+    let text = '';
+    // Octal escapes are raw bytes of a (usually UTF-8) sequence, so gather
+    // consecutive ones and decode them together
+    let bytes: number[] = [];
+    const flushBytes = () => {
+      if (bytes.length > 0) {
+        text += Buffer.from(bytes).toString('utf8');
+        bytes = [];
+      }
+    };
+    while (!this.atEnd()) {
+      const char = this.input[this.position++];
+      if (char === '"') {
+        flushBytes();
+        return text;
+      }
+      if (char === '\\' && /[0-7]/.test(this.input[this.position] ?? '')) {
+        let digits = '';
+        while (digits.length < 3 && /[0-7]/.test(this.input[this.position] ?? '')) {
+          digits += this.input[this.position++];
+        }
+        bytes.push(parseInt(digits, 8) & 0xff);
+        continue;
+      }
+      flushBytes();
+      if (char !== '\\') {
+        text += char;
+        continue;
+      }
+      const escaped = this.input[this.position++];
+      switch (escaped) {
+        case 'n': text += '\n'; break;
+        case 't': text += '\t'; break;
+        case 'r': text += '\r'; break;
+        case 'f': text += '\f'; break;
+        case 'v': text += '\v'; break;
+        case 'b': text += '\b'; break;
+        case 'a': text += '\x07'; break;
+        case 'e': text += '\x1b'; break;
+        default:
+          if (escaped !== undefined) {
+            text += escaped;
+          }
+      }
+    }
+    throw new MiSyntaxError('Unterminated string', this.input, this.position);
+  }
+
+  readValue(): MiValue {
+    switch (this.peek()) {
+      case '"':
+        return this.readCString();
+      case '{':
+        return this.readTuple();
+      case '[':
+        return this.readList();
+      default:
+        throw new MiSyntaxError('Expected value', this.input, this.position);
+    }
+  }
+
+  readVariable(): string {
+    const name = this.readWhile((char) => char !== '=' && char !== ',' && char !== '}' && char !== ']');
+    this.expect('=');
+    return name;
+  }
+
+  readTuple(): MiTuple {
+    this.expect('{');
+    const tuple: MiTuple = {};
+    if (this.peek() === '}') {
+      this.position++;
+      return tuple;
+    }
+    this.readResultsInto(tuple, '}');
+    this.expect('}');
+    return tuple;
+  }
+
+  readList(): MiValue[] {
+    this.expect('[');
+    const list: MiValue[] = [];
+    while (this.peek() !== ']') {
+      if (this.atEnd()) {
+        throw new MiSyntaxError("Expected ']'", this.input, this.position);
+      }
+      // Lists may hold either bare values or name=value results; the names
+      // in a result list are always identical (e.g. frame=...), so drop them
+      if (this.peek() !== '"' && this.peek() !== '{' && this.peek() !== '[') {
+        this.readVariable();
+      }
+      list.push(this.readValue());
+      if (this.peek() === ',') {
+        this.position++;
+      }
+    }
+    this.expect(']');
+    return list;
+  }
+
+  /**
+   * Read comma-separated results until `terminator` (or end of line).
+   *
+   * Repeated keys and the bare tuples some GDB versions emit after a key
+   * (e.g. `bkpt={...},{...}` for multi-location breakpoints) are folded
+   * into an array under that key.
+   */
+  readResultsInto(tuple: MiTuple, terminator?: string) {
+    let lastKey: string | undefined;
+    while (!this.atEnd() && this.peek() !== terminator) {
+      let key: string;
+      if (this.peek() === '{' && lastKey !== undefined) {
+        key = lastKey;
+      } else {
+        key = this.readVariable();
+      }
+      const value = this.readValue();
+      if (key in tuple) {
+        const existing = tuple[key];
+        if (Array.isArray(existing) && this.isFolded(existing)) {
+          existing.push(value);
+        } else {
+          tuple[key] = Object.assign([existing, value], { folded: true });
+        }
+      } else {
+        tuple[key] = value;
+      }
+      lastKey = key;
+      if (this.peek() === ',') {
+        this.position++;
+      }
+    }
+  }
+
+  private isFolded(value: MiValue[]): boolean {
+    return (value as MiValue[] & { folded?: boolean }).folded === true;
+  }
+}
+
+/**
+ * Parse a single line of GDB/MI output.
+ *
+ * Returns null for blank lines and for lines that are not valid MI (for
+ * instance text the inferior printed to a shared terminal).
+ */
+export function parseMiLine(line: string): MiRecord | null {
+  const trimmed = line.replace(/\r$/, '');
+  if (!trimmed.trim()) {
+    return null;
+  }
+  if (trimmed.trim() === '(gdb)') {
+    return { type: 'prompt' };
+  }
+
+  try {
+    const scanner = new MiScanner(trimmed);
+    const tokenText = scanner.readWhile((char) => char >= '0' && char <= '9');
+    const token = tokenText ? parseInt(tokenText, 10) : undefined;
+    const prefix = scanner.peek();
+    scanner.position++;
+
+    if (prefix in STREAM_KINDS && token === undefined) {
+      return { type: 'stream', kind: STREAM_KINDS[prefix], text: scanner.readCString() };
+    }
+
+    if (prefix === '^' || prefix in ASYNC_KINDS) {
+      const className = scanner.readWhile((char) => char !== ',');
+      const results: MiTuple = {};
+      if (scanner.peek() === ',') {
+        scanner.position++;
+        scanner.readResultsInto(results);
+      }
+      if (prefix === '^') {
+        return { type: 'result', token, resultClass: className as MiResultClass, results };
+      }
+      return { type: 'async', kind: ASYNC_KINDS[prefix], token, asyncClass: className, results };
+    }
+  } catch (error) {
+    if (!(error instanceof MiSyntaxError)) {
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Quote a string as an MI c-string parameter
+ */
+export function quoteMiString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Format a value as an MI command parameter, quoting it only when needed
+ */
+export function miArgument(value: string): string {
+  return /^[^\s"\\]+$/.test(value) && !value.startsWith('-') ? value : quoteMiString(value);
+}
+
+/**
+ * Read a const field from a tuple, returning undefined if it is absent or not a string
+ */
+export function miString(tuple: MiTuple | undefined, key: string): string | undefined {
+  const value = tuple?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read a numeric const field from a tuple
+ */
+export function miNumber(tuple: MiTuple | undefined, key: string): number | undefined {
+  const value = miString(tuple, key);
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read a tuple field from a tuple
+ */
+export function miTuple(tuple: MiTuple | undefined, key: string): MiTuple | undefined {
+  const value = tuple?.[key];
+  return value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+}
+
+/**
+ * Read a list field from a tuple; a single value is returned as a one-element list
+ */
+export function miList(tuple: MiTuple | undefined, key: string): MiValue[] {
+  const value = tuple?.[key];
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,37 @@
+/**
+ * Bounded buffer of program output addressed by absolute offsets.
+ *
+ * Offsets count every character ever written, so a reader can ask for
+ * "everything after offset N" and learn whether part of it was already
+ * discarded to stay within capacity.
+ */
+export class OutputRingBuffer {
+  private data = '';
+  // Absolute offset of the first character still held in `data`
+  private start = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  get endOffset(): number {
+    return this.start + this.data.length;
+  }
+
+  append(text: string) {
+    this.data += text;
+    if (this.data.length > this.capacity) {
+      const excess = this.data.length - this.capacity;
+      this.data = this.data.slice(excess);
+      this.start += excess;
+    }
+  }
+
+  /**
+   * Read up to `maxLength` characters starting at `offset`
+   */
+  read(offset: number, maxLength: number): { text: string; offset: number; nextOffset: number; truncated: boolean } {
+    const truncated = offset < this.start;
+    const from = Math.min(Math.max(offset, this.start), this.endOffset);
+    const text = this.data.slice(from - this.start, from - this.start + maxLength);
+    return { text, offset: from, nextOffset: from + text.length, truncated };
+  }
+}
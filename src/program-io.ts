@@ -0,0 +1,183 @@
+/**
+ * Named pipes a session's inferior has its standard streams redirected to,
+ * so its output is kept apart from GDB's own.
+ *
+ * The server holds the stdin pipe open read-write: the inferior's shell can
+ * then open it without blocking, and data written before the inferior reads
+ * is kept. The flip side is that the inferior only sees end of file once
+ * closeProgramInput() drops the server's end.
+ *
+ * A program started by gdbserver writes to gdbserver's own streams instead,
+ * and its stderr has to be told apart from gdbserver's messages.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputRingBuffer } from './output-buffer.js';
+
+export interface ProgramIo {
+  dir: string;
+  stdinPath: string;
+  stdoutPath: string;
+  stderrPath: string;
+  // Write end of the stdin pipe; closed to signal EOF and reopened on launch
+  stdin?: net.Socket;
+  stdout: net.Socket;
+  stderr: net.Socket;
+  stdoutBuffer: OutputRingBuffer;
+  stderrBuffer: OutputRingBuffer;
+  // Offsets up to which gdb_read_program_output has already returned output
+  stdoutCursor: number;
+  stderrCursor: number;
+}
+
+// Characters of program output kept per stream
+export const PROGRAM_OUTPUT_CAPACITY = 1024 * 1024;
+
+/**
+ * Open a named pipe without blocking. Opening read-write keeps the pipe
+ * alive across runs of the inferior, so readers never see EOF.
+ */
+function openPipe(pipePath: string, options: { readable: boolean; writable: boolean }): net.Socket {
+  const fd = fs.openSync(pipePath, fs.constants.O_RDWR | fs.constants.O_NONBLOCK);
+  return new net.Socket({ fd, ...options });
+}
+
+/**
+ * Create the named pipes for a session's inferior and start buffering
+ * what it writes to them
+ */
+export function createProgramIo(sessionId: string): ProgramIo {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `mcp-gdb-${sessionId}-`));
+  const stdinPath = path.join(dir, 'stdin');
+  const stdoutPath = path.join(dir, 'stdout');
+  const stderrPath = path.join(dir, 'stderr');
+  execFileSync('mkfifo', ['-m', '600', stdinPath, stdoutPath, stderrPath]);
+  
+  const io: ProgramIo = {
+    dir,
+    stdinPath,
+    stdoutPath,
+    stderrPath,
+    stdin: openPipe(stdinPath, { readable: false, writable: true }),
+    stdout: openPipe(stdoutPath, { readable: true, writable: false }),
+    stderr: openPipe(stderrPath, { readable: true, writable: false }),
+    stdoutBuffer: new OutputRingBuffer(PROGRAM_OUTPUT_CAPACITY),
+    stderrBuffer: new OutputRingBuffer(PROGRAM_OUTPUT_CAPACITY),
+    stdoutCursor: 0,
+    stderrCursor: 0
+  };
+  io.stdout.setEncoding('utf8');
+  io.stderr.setEncoding('utf8');
+  io.stdout.on('data', (text: string) => io.stdoutBuffer.append(text));
+  io.stderr.on('data', (text: string) => io.stderrBuffer.append(text));
+  return io;
+}
+
+/**
+ * Write to the inferior's stdin
+ */
+export function writeProgramInput(io: ProgramIo, text: string): Promise<void> {
+  const stdin = io.stdin;
+  if (!stdin || stdin.destroyed) {
+    return Promise.reject(new Error('Program stdin was already closed; it is reopened when the program is run again'));
+  }
+  return new Promise<void>((resolve, reject) => {
+    stdin.write(text, (error) => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Close the server's end of the stdin pipe, so the inferior reads end of
+ * file once it has consumed what was written
+ */
+export function closeProgramInput(io: ProgramIo) {
+  io.stdin?.destroy();
+}
+
+/**
+ * Reopen the stdin pipe for a new run if a previous run was sent EOF
+ */
+export function reopenProgramInput(io: ProgramIo) {
+  if (!io.stdin || io.stdin.destroyed) {
+    io.stdin = openPipe(io.stdinPath, { readable: false, writable: true });
+  }
+}
+
+/**
+ * Close a session's program pipes and remove them
+ */
+export function closeProgramIo(io: ProgramIo) {
+  io.stdin?.destroy();
+  io.stdout.destroy();
+  io.stderr.destroy();
+  fs.rmSync(io.dir, { recursive: true, force: true });
+}
+
+// Start of every line gdbserver itself prints on its stderr
+const GDBSERVER_MESSAGE_PREFIXES = [
+  'Process ',
+  'Listening on port ',
+  'Remote debugging from host ',
+  'Remote side has terminated connection',
+  'Child exited with ',
+  'Child terminated with ',
+  'Attached; pid = ',
+  'Detaching from process ',
+  'Killing process',
+  'Killing all inferiors',
+  'gdbserver: ',
+  'GDBserver exiting',
+  'Exiting'
+];
+
+// Lines starting with "Process " that are gdbserver's rather than the program's
+const GDBSERVER_PROCESS_MESSAGE = /^Process .+ (created; pid = \d+|exited with |terminated with )/;
+
+function isGdbserverMessage(line: string): boolean {
+  if (line.startsWith('Process ')) {
+    return GDBSERVER_PROCESS_MESSAGE.test(line);
+  }
+  return GDBSERVER_MESSAGE_PREFIXES.some((prefix) => line.startsWith(prefix));
+}
+
+/**
+ * Split the stderr of gdbserver, which a program it started shares, into
+ * gdbserver's own messages and the program's output. Program output passes
+ * through as it arrives; only a partial line that could still become a
+ * gdbserver message is held back until its line ends or flush() is called.
+ */
+export function createGdbserverStderrSplitter(onProgramOutput: (text: string) => void, onMessage: (line: string) => void) {
+  let pending = '';
+  
+  const write = (text: string) => {
+    pending += text;
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) >= 0) {
+      const line = pending.slice(0, newline + 1);
+      pending = pending.slice(newline + 1);
+      if (isGdbserverMessage(line)) {
+        onMessage(line.trimEnd());
+      } else {
+        onProgramOutput(line);
+      }
+    }
+    const couldBeMessage = pending !== '' && GDBSERVER_MESSAGE_PREFIXES.some((prefix) => prefix.startsWith(pending) || pending.startsWith(prefix));
+    if (pending !== '' && !couldBeMessage) {
+      onProgramOutput(pending);
+      pending = '';
+    }
+  };
+  
+  const flush = () => {
+    if (pending !== '') {
+      onProgramOutput(pending);
+      pending = '';
+    }
+  };
+  
+  return { write, flush };
+}
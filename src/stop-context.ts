@@ -0,0 +1,130 @@
+/**
+ * The "stop context" stepping tools return: where execution stopped, the
+ * source around it and how the locals changed across the step.
+ */
+
+import * as fs from 'fs';
+import { GdbFrame, GdbStopEvent, GdbVariable, describeStopEvent } from './gdb-records.js';
+
+// Lines of source shown on each side of the current line
+export const SOURCE_CONTEXT_LINES = 3;
+
+export interface SourceSnippet {
+  file: string;
+  startLine: number;
+  currentLine: number;
+  lines: string[];
+}
+
+export interface LocalChange {
+  name: string;
+  value?: string;
+  previousValue?: string;
+  change: 'changed' | 'added' | 'removed';
+}
+
+// Frame and locals captured before a step, to compare against afterwards
+export interface FrameSnapshot {
+  frame?: GdbFrame;
+  locals: GdbVariable[];
+}
+
+export interface StopContext {
+  stop?: GdbStopEvent;
+  frame?: GdbFrame;
+  source?: SourceSnippet;
+  locals: GdbVariable[];
+  // True when execution ended up in another function than the one the
+  // locals were captured in, in which case there is no diff
+  frameChanged: boolean;
+  changedLocals: LocalChange[];
+  returnValue?: { variable?: string; value: string };
+}
+
+/**
+ * Read the lines around `line` from a source file, or undefined if the file
+ * is not readable from here
+ */
+export function readSourceSnippet(file: string, line: number, context = SOURCE_CONTEXT_LINES): SourceSnippet | undefined {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    return undefined;
+  }
+  const allLines = text.split('\n');
+  const startLine = Math.max(1, line - context);
+  const endLine = Math.min(allLines.length, line + context);
+  return { file, startLine, currentLine: line, lines: allLines.slice(startLine - 1, endLine) };
+}
+
+/**
+ * Whether two frames belong to the same function activation, as far as can
+ * be told without frame addresses
+ */
+export function isSameFunction(before: GdbFrame | undefined, after: GdbFrame | undefined): boolean {
+  return before !== undefined && after !== undefined &&
+    before.func === after.func && before.file === after.file && before.from === after.from;
+}
+
+/**
+ * Compare locals by name; values of aggregates are not reported by
+ * --simple-values and so only show up as added or removed
+ */
+export function diffLocals(before: GdbVariable[], after: GdbVariable[]): LocalChange[] {
+  const changes: LocalChange[] = [];
+  const previous = new Map(before.map((variable) => [variable.name, variable]));
+  for (const variable of after) {
+    const old = previous.get(variable.name);
+    if (!old) {
+      changes.push({ name: variable.name, value: variable.value, change: 'added' });
+    } else if (old.value !== variable.value) {
+      changes.push({ name: variable.name, value: variable.value, previousValue: old.value, change: 'changed' });
+    }
+    previous.delete(variable.name);
+  }
+  for (const variable of previous.values()) {
+    changes.push({ name: variable.name, previousValue: variable.value, change: 'removed' });
+  }
+  return changes;
+}
+
+/**
+ * Human-readable stop context, for the text part of a tool result
+ */
+export function describeStopContext(context: StopContext): string {
+  const lines: string[] = [];
+  if (context.stop) {
+    lines.push(describeStopEvent(context.stop));
+  }
+  if (context.returnValue) {
+    lines.push(`Value returned: ${context.returnValue.variable ? `${context.returnValue.variable} = ` : ''}${context.returnValue.value}`);
+  }
+  if (context.source) {
+    const { startLine, currentLine } = context.source;
+    const width = String(startLine + context.source.lines.length - 1).length;
+    lines.push('');
+    context.source.lines.forEach((text, index) => {
+      const number = startLine + index;
+      lines.push(`${number === currentLine ? '=>' : '  '} ${String(number).padStart(width)}  ${text}`);
+    });
+  }
+  if (context.frameChanged) {
+    if (context.locals.length > 0) {
+      lines.push('', 'Locals:');
+      lines.push(...context.locals.map((variable) => `  ${variable.name} = ${variable.value ?? `<${variable.type || 'complex'}>`}`));
+    }
+  } else if (context.changedLocals.length > 0) {
+    lines.push('', 'Changed locals:');
+    for (const change of context.changedLocals) {
+      if (change.change === 'changed') {
+        lines.push(`  ${change.name} = ${change.value ?? '?'} (was ${change.previousValue ?? '?'})`);
+      } else if (change.change === 'added') {
+        lines.push(`  ${change.name} = ${change.value ?? '?'} (new)`);
+      } else {
+        lines.push(`  ${change.name} (out of scope)`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
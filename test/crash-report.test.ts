@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GdbFrame } from '../src/gdb-records.js';
+import { CoreAnalysis, bucketCrashes, parseCoreSignal, stackSignature } from '../src/crash-report.js';
+
+function frames(...names: string[]): GdbFrame[] {
+  return names.map((func, level) => ({ level, func, addr: `0x${(0x401000 + level * 0x10).toString(16)}` }));
+}
+
+test('signatures skip abort and signal delivery frames', () => {
+  const signature = stackSignature(frames('__pthread_kill_implementation', 'raise', 'abort', '__assert_fail', 'check', 'main'));
+  assert.deepEqual(signature.frames, ['check', 'main']);
+  assert.match(signature.hash, /^[0-9a-f]{16}$/);
+});
+
+test('signatures start after a signal handler frame', () => {
+  const signature = stackSignature(frames('handler', '<signal handler called>', 'crash', 'main'));
+  assert.deepEqual(signature.frames, ['crash', 'main']);
+});
+
+test('signatures ignore addresses and only look at the innermost frames', () => {
+  const a = stackSignature(frames('a', 'b', 'c', 'd', 'e', 'f'));
+  const b = stackSignature(frames('a', 'b', 'c', 'd', 'e', 'g').map((frame) => ({ ...frame, addr: '0x0', line: 99 })));
+  assert.equal(a.hash, b.hash);
+  assert.notEqual(a.hash, stackSignature(frames('a', 'b', 'x', 'd', 'e')).hash);
+});
+
+test('frames without symbols fall back to their module', () => {
+  const signature = stackSignature([{ level: 0, addr: '0x7f00', from: '/lib/libc.so.6' }, { level: 1, addr: '0x401000' }]);
+  assert.deepEqual(signature.frames, ['/lib/libc.so.6+?', '0x401000']);
+});
+
+test('buckets cores by stack hash, largest bucket first', () => {
+  const core = (corePath: string, stackHash: string, signal: string): CoreAnalysis => ({
+    corePath, stackHash, signal: { name: signal }, signatureFrames: [stackHash], frames: []
+  });
+  const buckets = bucketCrashes([
+    core('core.1', 'aaaa', 'SIGSEGV'),
+    core('core.2', 'bbbb', 'SIGABRT'),
+    core('core.3', 'bbbb', 'SIGSEGV'),
+    core('core.4', 'bbbb', 'SIGABRT')
+  ]);
+  assert.deepEqual(buckets.map((bucket) => [bucket.stackHash, bucket.count, bucket.cores, bucket.signals]), [
+    ['bbbb', 3, ['core.2', 'core.3', 'core.4'], ['SIGABRT', 'SIGSEGV']],
+    ['aaaa', 1, ['core.1'], ['SIGSEGV']]
+  ]);
+  assert.equal(buckets[0].representative.corePath, 'core.2');
+});
+
+test('reads the fatal signal of a core', () => {
+  assert.deepEqual(parseCoreSignal('Core was generated by `./a\'.\nProgram terminated with signal SIGSEGV, Segmentation fault.\n'), {
+    name: 'SIGSEGV',
+    meaning: 'Segmentation fault'
+  });
+  assert.deepEqual(parseCoreSignal(''), {});
+});
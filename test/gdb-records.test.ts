@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMiLine, MiTuple } from '../src/mi-parser.js';
+import {
+  describeStopEvent,
+  findMemoryRegion,
+  parseExitCode,
+  parseMemoryRegions,
+  toBreakpoint,
+  toBreakpointTable,
+  toStopEvent
+} from '../src/gdb-records.js';
+
+function results(line: string): MiTuple {
+  const record = parseMiLine(line);
+  assert.ok(record && (record.type === 'result' || record.type === 'async'), `not a result: ${line}`);
+  return record.results;
+}
+
+test('converts a multi-location breakpoint folded by the parser (before GDB 13)', () => {
+  const tuple = results('^done,bkpt={number="2",type="breakpoint",disp="keep",enabled="y",addr="<MULTIPLE>",times="0",original-location="add"},{number="2.1",enabled="y",addr="0x401126",func="add(int, int)",file="a.cc",line="3"},{number="2.2",enabled="n",addr="0x401140",func="add(double, double)",file="a.cc",line="7"}');
+  const breakpoint = toBreakpoint(tuple.bkpt);
+  assert.equal(breakpoint.number, '2');
+  assert.equal(breakpoint.originalLocation, 'add');
+  assert.deepEqual(breakpoint.locations.map((location) => [location.number, location.enabled, location.line]), [
+    ['2.1', true, 3],
+    ['2.2', false, 7]
+  ]);
+});
+
+test('converts a multi-location breakpoint with a locations list (GDB 13+)', () => {
+  const tuple = results('^done,bkpt={number="2",type="breakpoint",enabled="y",addr="<MULTIPLE>",times="1",locations=[{number="2.1",enabled="y",addr="0x401126"},{number="2.2",enabled="y",addr="0x401140"}]}');
+  const breakpoint = toBreakpoint(tuple.bkpt);
+  assert.equal(breakpoint.hitCount, 1);
+  assert.deepEqual(breakpoint.locations.map((location) => location.addr), ['0x401126', '0x401140']);
+});
+
+test('converts stop records', () => {
+  const signal = toStopEvent(results('*stopped,reason="signal-received",signal-name="SIGSEGV",signal-meaning="Segmentation fault",frame={addr="0x401136",func="crash",line="5"},thread-id="1"'));
+  assert.equal(signal.signalName, 'SIGSEGV');
+  assert.equal(signal.threadId, '1');
+  assert.equal(signal.frame?.func, 'crash');
+  assert.equal(signal.frame?.line, 5);
+});
+
+test('reads exit codes in octal', () => {
+  assert.deepEqual(toStopEvent(results('*stopped,reason="exited",exit-code="012"')), { reason: 'exited', exitCode: 10 });
+  assert.equal(toStopEvent(results('*stopped,reason="exited-normally"')).exitCode, 0);
+  assert.equal(parseExitCode('0377'), 255);
+  assert.equal(parseExitCode('9'), undefined);
+});
+
+test('groups the location rows of a -break-list table under their breakpoint', () => {
+  const tuple = results('^done,BreakpointTable={body=[bkpt={number="1",type="breakpoint",enabled="y",addr="0x401000",func="main"},bkpt={number="2",type="breakpoint",enabled="y",addr="<MULTIPLE>"},bkpt={number="2.1",enabled="y",addr="0x1"},bkpt={number="2.2",enabled="y",addr="0x2"},bkpt={number="3",type="hw watchpoint",enabled="y",what="counter"}]}');
+  const body = (tuple.BreakpointTable as MiTuple).body as MiTuple[];
+  const breakpoints = toBreakpointTable(body);
+  assert.deepEqual(breakpoints.map((breakpoint) => [breakpoint.number, breakpoint.locations.length]), [
+    ['1', 0],
+    ['2', 2],
+    ['3', 0]
+  ]);
+  assert.equal(breakpoints[2].what, 'counter');
+});
+
+test('reports the watchpoint that triggered a stop with its values', () => {
+  const write = toStopEvent(results('*stopped,reason="watchpoint-trigger",wpt={number="3",exp="counter"},value={old="1",new="2"},frame={addr="0x401136",func="bump"},thread-id="1"'));
+  assert.deepEqual(write.watchpoint, { number: '3', expression: 'counter', oldValue: '1', newValue: '2' });
+  assert.equal(write.breakpointNumber, '3');
+  assert.equal(describeStopEvent(write), 'Stopped (watchpoint-trigger) on watchpoint 3 (counter): 1 -> 2 in bump at 0x401136');
+  
+  const read = toStopEvent(results('*stopped,reason="read-watchpoint-trigger",hw-rwpt={number="4",exp="limit"},value={value="10"}'));
+  assert.deepEqual(read.watchpoint, { number: '4', expression: 'limit', value: '10' });
+});
+
+test('parses info proc mappings and finds the region of an address', () => {
+  const regions = parseMemoryRegions([
+    '          Start Addr           End Addr       Size     Offset  Perms  objfile',
+    '            0x400000           0x401000     0x1000        0x0  r--p   /tmp/a',
+    '            0x401000           0x402000     0x1000     0x1000  r-xp   /tmp/a',
+    '      0x7ffffffde000     0x7ffffffff000    0x21000        0x0  rw-p   [stack]'
+  ].join('\n'));
+  assert.equal(regions.length, 3);
+  assert.deepEqual(findMemoryRegion(regions, '0x401136'), {
+    start: '0x401000', end: '0x402000', size: '0x1000', offset: '0x1000', permissions: 'r-xp', objfile: '/tmp/a'
+  });
+  assert.equal(findMemoryRegion(regions, '0x10'), undefined);
+});
+
+test('parses the sections of info files with the file they belong to', () => {
+  const regions = parseMemoryRegions([
+    'Local exec file:',
+    "\t`/tmp/a', file type elf64-x86-64.",
+    '\t0x0000000000401000 - 0x0000000000401017 is .init',
+    '\t0x00007ffff7fc5238 - 0x00007ffff7fc525c is .note.gnu.build-id in /lib64/ld-linux-x86-64.so.2'
+  ].join('\n'));
+  assert.deepEqual(regions.map((region) => [region.section, region.objfile, region.size]), [
+    ['.init', '/tmp/a', '0x17'],
+    ['.note.gnu.build-id', '/lib64/ld-linux-x86-64.so.2', '0x24']
+  ]);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyWait, findWaitCycles, groupStacks, parsePointer, threadLwp } from '../src/hang-analysis.js';
+
+test('classifies a mutex wait from the outermost lock frame', () => {
+  const wait = classifyWait([
+    { level: 0, func: 'futex_wait' },
+    { level: 1, func: '__lll_lock_wait' },
+    { level: 2, func: '___pthread_mutex_lock', args: [{ name: 'mutex', value: '0x404040 <lock_a>' }] },
+    { level: 3, func: 'worker' },
+    { level: 4, func: 'start_thread' }
+  ]);
+  assert.deepEqual(wait, { kind: 'mutex', frameLevel: 2, function: '___pthread_mutex_lock', object: '0x404040', symbol: 'lock_a' });
+});
+
+test('threads that are not blocked have no wait', () => {
+  assert.equal(classifyWait([{ level: 0, func: 'compute' }, { level: 1, func: 'main' }]), undefined);
+});
+
+test('finds deadlock cycles in the wait-for graph', () => {
+  const cycles = findWaitCycles([
+    { from: '2', to: '3' },
+    { from: '3', to: '2' },
+    { from: '4', to: '2' },
+    { from: '5', to: '6' }
+  ]);
+  assert.deepEqual(cycles, [['2', '3']]);
+  assert.deepEqual(findWaitCycles([{ from: '1', to: '1' }]), [['1']]);
+});
+
+test('groups threads with identical stacks', () => {
+  const stack = [{ level: 0, func: 'wait', addr: '0x1' }];
+  const groups = groupStacks([
+    { threadId: '1', frames: [{ level: 0, func: 'main', addr: '0x2' }] },
+    { threadId: '2', frames: stack },
+    { threadId: '3', frames: stack }
+  ]);
+  assert.deepEqual(groups.map((group) => group.threadIds), [['2', '3'], ['1']]);
+});
+
+test('reads LWPs and pointers as GDB prints them', () => {
+  assert.equal(threadLwp({ id: '1', targetId: 'Thread 0x7ffff7d8a740 (LWP 42)', current: false }), 42);
+  assert.equal(threadLwp({ id: '1', targetId: 'process 7', current: false }), 7);
+  assert.deepEqual(parsePointer('(pthread_mutex_t *) 0x4040 <lock_b>'), ['0x4040', 'lock_b']);
+});
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resumesPastLogpoint } from '../src/logpoints.js';
+
+test('a logpoint hit during an async continue is resumed while gdb_wait_for_stop waits', () => {
+  // gdb_continue with async returns at once, so nothing is active until
+  // the client waits for the stop
+  assert.equal(resumesPastLogpoint(undefined), true);
+  assert.equal(resumesPastLogpoint('gdb_wait_for_stop'), true);
+});
+
+test('a logpoint hit is resumed during continues and inspections of the running program', () => {
+  for (const tool of ['gdb_continue', 'gdb_run', 'gdb_start_program', 'gdb_list_breakpoints', 'gdb_print']) {
+    assert.equal(resumesPastLogpoint(tool), true, tool);
+  }
+});
+
+test('a step that reaches a logpoint ends there', () => {
+  for (const tool of ['gdb_step', 'gdb_next', 'gdb_finish', 'gdb_until', 'gdb_advance', 'gdb_step_until_condition']) {
+    assert.equal(resumesPastLogpoint(tool), false, tool);
+  }
+});
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { miArgument, miList, miNumber, parseMiLine, quoteMiString } from '../src/mi-parser.js';
+
+test('parses a result record with its token', () => {
+  assert.deepEqual(parseMiLine('12^done,value="42"'), {
+    type: 'result',
+    token: 12,
+    resultClass: 'done',
+    results: { value: '42' }
+  });
+});
+
+test('parses async records with nested tuples and lists', () => {
+  const record = parseMiLine('*stopped,reason="breakpoint-hit",bkptno="1",frame={func="main",args=[{name="argc",value="1"}]},thread-id="1"');
+  assert.equal(record?.type, 'async');
+  if (record?.type !== 'async') return;
+  assert.equal(record.kind, 'exec');
+  assert.equal(record.asyncClass, 'stopped');
+  assert.deepEqual(record.results.frame, { func: 'main', args: [{ name: 'argc', value: '1' }] });
+});
+
+test('drops the names of a result list', () => {
+  const record = parseMiLine('^done,stack=[frame={level="0"},frame={level="1"}]');
+  assert.equal(record?.type, 'result');
+  if (record?.type !== 'result') return;
+  assert.deepEqual(miList(record.results, 'stack'), [{ level: '0' }, { level: '1' }]);
+});
+
+test('decodes octal escapes as UTF-8 byte sequences', () => {
+  // "héllo → ✓" as GDB prints it with non-ASCII bytes escaped
+  const record = parseMiLine('~"h\\303\\251llo \\342\\206\\222 \\342\\234\\223\\n"');
+  assert.deepEqual(record, { type: 'stream', kind: 'console', text: 'héllo → ✓\n' });
+});
+
+test('decodes C escapes in c-strings', () => {
+  const record = parseMiLine('&"tab\\there \\"quoted\\" back\\\\slash\\n"');
+  assert.deepEqual(record, { type: 'stream', kind: 'log', text: 'tab\there "quoted" back\\slash\n' });
+});
+
+test('folds the bare tuples of a pre-GDB 13 multi-location breakpoint', () => {
+  const record = parseMiLine('^done,bkpt={number="1",type="breakpoint",addr="<MULTIPLE>"},{number="1.1",addr="0x1"},{number="1.2",addr="0x2"}');
+  assert.equal(record?.type, 'result');
+  if (record?.type !== 'result') return;
+  assert.deepEqual([...miList(record.results, 'bkpt')], [
+    { number: '1', type: 'breakpoint', addr: '<MULTIPLE>' },
+    { number: '1.1', addr: '0x1' },
+    { number: '1.2', addr: '0x2' }
+  ]);
+});
+
+test('recognises the prompt and rejects text that is not MI', () => {
+  assert.deepEqual(parseMiLine('(gdb) '), { type: 'prompt' });
+  assert.equal(parseMiLine(''), null);
+  assert.equal(parseMiLine('Hello from the inferior'), null);
+  assert.equal(parseMiLine('^done,value="unterminated'), null);
+});
+
+test('quotes command arguments only when needed', () => {
+  assert.equal(miArgument('main'), 'main');
+  assert.equal(miArgument('-x'), '"-x"');
+  assert.equal(miArgument('a b'), '"a b"');
+  assert.equal(quoteMiString('say "hi"\\\n'), '"say \\"hi\\"\\\\\\n"');
+});
+
+test('reads numbers leniently', () => {
+  assert.equal(miNumber({ line: '12' }, 'line'), 12);
+  assert.equal(miNumber({ line: 'x' }, 'line'), undefined);
+  assert.equal(miNumber({}, 'line'), undefined);
+});
@@ -0,0 +1,81 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import { setTimeout as delay } from 'timers/promises';
+import { closeProgramInput, closeProgramIo, createGdbserverStderrSplitter, createProgramIo, reopenProgramInput, writeProgramInput } from '../src/program-io.js';
+
+// Start `cat` the way GDB's startup shell starts a program with the
+// session's redirections, and resolve with its exit code
+function runCat(paths: { stdinPath: string; stdoutPath: string; stderrPath: string }) {
+  const child = spawn('sh', ['-c', 'exec cat < "$0" > "$1" 2> "$2"', paths.stdinPath, paths.stdoutPath, paths.stderrPath]);
+  const exited = new Promise<number | null>((resolve) => child.on('exit', resolve));
+  return { child, exited };
+}
+
+async function until(condition: () => boolean) {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await delay(20);
+  }
+}
+
+test('the program sees end of file only after stdin is closed', { timeout: 10000 }, async () => {
+  const io = createProgramIo('test');
+  try {
+    const { child, exited } = runCat(io);
+    after(() => child.kill());
+    await writeProgramInput(io, 'hello\n');
+    await until(() => io.stdoutBuffer.endOffset > 0);
+    assert.equal(io.stdoutBuffer.read(0, 100).text, 'hello\n');
+    
+    // Still reading: the server holds the pipe open
+    await delay(100);
+    assert.equal(child.exitCode, null);
+    
+    closeProgramInput(io);
+    assert.equal(await exited, 0);
+    await assert.rejects(writeProgramInput(io, 'late'), /already closed/);
+  } finally {
+    closeProgramIo(io);
+  }
+});
+
+test('stdin is reopened for the next run after end of file', { timeout: 10000 }, async () => {
+  const io = createProgramIo('test');
+  try {
+    for (const text of ['first\n', 'second\n']) {
+      reopenProgramInput(io);
+      const { child, exited } = runCat(io);
+      after(() => child.kill());
+      const length = io.stdoutBuffer.endOffset;
+      await writeProgramInput(io, text);
+      // End of file is only seen by a program that has opened the pipe,
+      // which it has once it echoed the input
+      await until(() => io.stdoutBuffer.endOffset === length + text.length);
+      closeProgramInput(io);
+      assert.equal(await exited, 0);
+    }
+    assert.equal(io.stdoutBuffer.read(0, 100).text, 'first\nsecond\n');
+  } finally {
+    closeProgramIo(io);
+  }
+});
+
+test('gdbserver messages are kept out of program stderr', () => {
+  let program = '';
+  const messages: string[] = [];
+  const stderr = createGdbserverStderrSplitter((text) => program += text, (line) => messages.push(line));
+  
+  stderr.write('Process /tmp/prog created; pid = 42\nRemote debugging from ');
+  stderr.write('host 127.0.0.1, port 50000\nwarning: low');
+  // Program output that cannot be a gdbserver message is not held back
+  assert.equal(program, 'warning: low');
+  stderr.write(' disk\nProcess 7 of 9 done\nChild exited with status 0\nExit');
+  stderr.flush();
+  
+  assert.equal(program, 'warning: low disk\nProcess 7 of 9 done\nExit');
+  assert.deepEqual(messages, [
+    'Process /tmp/prog created; pid = 42',
+    'Remote debugging from host 127.0.0.1, port 50000',
+    'Child exited with status 0'
+  ]);
+});